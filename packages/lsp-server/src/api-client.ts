@@ -4,6 +4,9 @@
  * Handles communication with the REST Lens API for spec evaluation.
  * This is a thin wrapper around the shared RestLensClient from @restlens/lib,
  * keeping compatibility with the existing LSP server implementation.
+ * Ignores, rule documentation and the rule-set revision are not in the
+ * shared client and are requested directly; CONTRIBUTING.md describes what
+ * those endpoints must do.
  */
 
 import {
@@ -12,19 +15,54 @@ import {
   type ViolationsResponse,
   type SpecificationUploadResponse,
 } from "@restlens/lib";
+import type { IgnoreScope, ViolationKey } from "@restlens-ide/shared";
+import { RequestPolicy, type RunOptions } from "./request-policy";
 
 // Re-export types for backwards compatibility
 export { RestLensAPIError };
+export type { IgnoreScope, ViolationKey };
 
 /**
- * Simplified ViolationKey for ignore API requests.
- * The ignore API only needs these fields, not the full ViolationKey with violation_key_type.
+ * Waiver details sent when creating an ignore.
  */
-export interface ViolationKey {
-  path?: string;
-  operation_id?: string;
-  http_code?: string;
-  schema_path?: string;
+export interface IgnoreOptions {
+  scope?: IgnoreScope;
+  /** Justification for the waiver */
+  reason?: string;
+  /** ISO 8601 timestamp after which the ignore no longer applies */
+  expiresAt?: string;
+}
+
+/**
+ * Ignore as listed by the ignores API. Rule ignores carry their rule;
+ * global ignores apply to every rule.
+ */
+export interface IgnoreRecord {
+  id: string;
+  violationKey: ViolationKey;
+  ruleId?: number | null;
+  ruleSlug?: string | null;
+  scope?: IgnoreScope | null;
+  reason?: string | null;
+  expiresAt?: string | null;
+  /** Name of the user who created the ignore */
+  createdBy?: string | null;
+  /** ISO 8601 timestamp */
+  createdAt?: string;
+}
+
+/**
+ * Rule documentation as served by the rules API.
+ */
+export interface RuleDocumentation {
+  id: number;
+  slug: string;
+  name?: string;
+  description?: string;
+  rationale?: string;
+  goodExample?: string;
+  badExample?: string;
+  url?: string;
 }
 
 export interface RestLensClientOptions {
@@ -33,6 +71,10 @@ export interface RestLensClientOptions {
   orgSlug: string;
   projectSlug: string;
   logger?: (msg: string) => void;
+  /** Retry, rate-limit and concurrency policy, shared across clients */
+  policy?: RequestPolicy;
+  /** Called on 401 to get a fresh access token (null if there is none) */
+  onUnauthorized?: () => Promise<string | null>;
 }
 
 export class RestLensClient {
@@ -42,6 +84,9 @@ export class RestLensClient {
   private projectSlug: string;
   private baseUrl: string;
   private accessToken: string;
+  private policy: RequestPolicy;
+  private onUnauthorized?: () => Promise<string | null>;
+  private logger?: (msg: string) => void;
 
   constructor(options: RestLensClientOptions) {
     this.baseUrl = options.baseUrl.replace(/\/$/, "");
@@ -49,14 +94,10 @@ export class RestLensClient {
     this.orgSlug = options.orgSlug;
     this.projectSlug = options.projectSlug;
     this.log = options.logger || console.log;
-
-    this.client = new BaseRestLensClient({
-      baseUrl: options.baseUrl,
-      accessToken: options.accessToken,
-      orgSlug: options.orgSlug,
-      projectSlug: options.projectSlug,
-      logger: options.logger,
-    });
+    this.policy = options.policy ?? new RequestPolicy();
+    this.onUnauthorized = options.onUnauthorized;
+    this.logger = options.logger;
+    this.client = this.createBaseClient();
 
     this.log(`Client initialized: baseUrl=${this.baseUrl}, org=${this.orgSlug || '(empty)'}, project=${this.projectSlug || '(empty)'}`);
   }
@@ -64,33 +105,47 @@ export class RestLensClient {
   /**
    * Evaluate an OpenAPI specification.
    * Uploads the spec, waits for evaluation, and returns violations.
+   * The shared client takes no signal: once aborted, the upload is not
+   * started or retried, but one already sent runs to completion and keeps
+   * its place under the concurrency limit until then.
    */
-  async evaluateSpec(spec: object): Promise<ViolationsResponse> {
-    return this.client.evaluateSpec(spec, {
-      tag: "ide-upload",
-      orgSlug: this.orgSlug,
-      projectSlug: this.projectSlug,
-    });
+  async evaluateSpec(spec: object, signal?: AbortSignal): Promise<ViolationsResponse> {
+    const evaluate = () => this.policy.run(
+      () => this.client.evaluateSpec(spec, {
+        tag: "ide-upload",
+        orgSlug: this.orgSlug,
+        projectSlug: this.projectSlug,
+      }),
+      { signal }
+    );
+
+    try {
+      return await evaluate();
+    } catch (error) {
+      if (error instanceof RestLensAPIError && error.status === 401 && await this.refreshAccessToken()) {
+        return evaluate();
+      }
+      throw error;
+    }
   }
 
   /**
    * Add a global ignore (ignores all rules for this violation key).
    */
-  async addGlobalIgnore(violationKey: ViolationKey): Promise<{ id: string }> {
+  async addGlobalIgnore(violationKey: ViolationKey, options: IgnoreOptions = {}): Promise<{ id: string }> {
     if (!this.orgSlug || !this.projectSlug) {
       throw new RestLensAPIError(400, "Organization and project must be configured", "missing_config");
     }
 
     const url = `${this.baseUrl}/api/projects/${encodeURIComponent(this.orgSlug)}/${encodeURIComponent(this.projectSlug)}/ignores`;
 
-    const response = await fetch(url, {
+    const response = await this.request(url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${this.accessToken}`,
       },
-      body: JSON.stringify({ violationKey }),
-    });
+      body: JSON.stringify({ violationKey, ...options }),
+    }, { idempotent: false });
 
     if (!response.ok) {
       throw await RestLensAPIError.fromResponse(response);
@@ -102,21 +157,20 @@ export class RestLensClient {
   /**
    * Add a rule-specific ignore.
    */
-  async addRuleIgnore(ruleId: number, violationKey: ViolationKey): Promise<{ id: string }> {
+  async addRuleIgnore(ruleId: number, violationKey: ViolationKey, options: IgnoreOptions = {}): Promise<{ id: string }> {
     if (!this.orgSlug || !this.projectSlug) {
       throw new RestLensAPIError(400, "Organization and project must be configured", "missing_config");
     }
 
     const url = `${this.baseUrl}/api/projects/${encodeURIComponent(this.orgSlug)}/${encodeURIComponent(this.projectSlug)}/rules/${ruleId}/ignores`;
 
-    const response = await fetch(url, {
+    const response = await this.request(url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${this.accessToken}`,
       },
-      body: JSON.stringify({ violationKey }),
-    });
+      body: JSON.stringify({ violationKey, ...options }),
+    }, { idempotent: false });
 
     if (!response.ok) {
       throw await RestLensAPIError.fromResponse(response);
@@ -124,4 +178,133 @@ export class RestLensClient {
 
     return response.json() as Promise<{ id: string }>;
   }
+
+  /**
+   * List every ignore of the project, global and rule-specific.
+   */
+  async listIgnores(): Promise<IgnoreRecord[]> {
+    if (!this.orgSlug || !this.projectSlug) {
+      throw new RestLensAPIError(400, "Organization and project must be configured", "missing_config");
+    }
+
+    const url = `${this.baseUrl}/api/projects/${encodeURIComponent(this.orgSlug)}/${encodeURIComponent(this.projectSlug)}/ignores`;
+
+    const response = await this.request(url, {});
+
+    if (!response.ok) {
+      throw await RestLensAPIError.fromResponse(response);
+    }
+
+    const data = await response.json() as { ignores?: IgnoreRecord[] };
+    return data.ignores ?? [];
+  }
+
+  /**
+   * Remove an ignore. Rule ignores live under their rule, like when they
+   * were added. Removing an ignore that no longer exists is not an error.
+   */
+  async removeIgnore(id: string, ruleId?: number | null): Promise<void> {
+    if (!this.orgSlug || !this.projectSlug) {
+      throw new RestLensAPIError(400, "Organization and project must be configured", "missing_config");
+    }
+
+    const project = `${this.baseUrl}/api/projects/${encodeURIComponent(this.orgSlug)}/${encodeURIComponent(this.projectSlug)}`;
+    const url = ruleId
+      ? `${project}/rules/${ruleId}/ignores/${encodeURIComponent(id)}`
+      : `${project}/ignores/${encodeURIComponent(id)}`;
+
+    const response = await this.request(url, { method: "DELETE" });
+
+    if (!response.ok && response.status !== 404) {
+      throw await RestLensAPIError.fromResponse(response);
+    }
+  }
+
+  /**
+   * Get the revision of the project's rule set.
+   * Changes whenever rules are added, removed or reconfigured.
+   */
+  async getRulesetRevision(): Promise<string> {
+    if (!this.orgSlug || !this.projectSlug) {
+      throw new RestLensAPIError(400, "Organization and project must be configured", "missing_config");
+    }
+
+    const url = `${this.baseUrl}/api/projects/${encodeURIComponent(this.orgSlug)}/${encodeURIComponent(this.projectSlug)}/rules/revision`;
+
+    const response = await this.request(url, {});
+
+    if (!response.ok) {
+      throw await RestLensAPIError.fromResponse(response);
+    }
+
+    const data = await response.json() as { revision: string };
+    return data.revision;
+  }
+
+  /**
+   * Get documentation for a rule (rationale, examples, link).
+   */
+  async getRuleDocumentation(ruleId: number): Promise<RuleDocumentation> {
+    const url = `${this.baseUrl}/api/rules/${ruleId}`;
+
+    const response = await this.request(url, {});
+
+    if (!response.ok) {
+      throw await RestLensAPIError.fromResponse(response);
+    }
+
+    return response.json() as Promise<RuleDocumentation>;
+  }
+
+  /**
+   * Web page for a rule, used when the API does not return one.
+   */
+  getRuleUrl(ruleSlug: string): string {
+    return `${this.baseUrl}/rules/${encodeURIComponent(ruleSlug)}`;
+  }
+
+  /**
+   * Use a new access token for subsequent requests.
+   */
+  setAccessToken(accessToken: string): void {
+    this.accessToken = accessToken;
+    this.client = this.createBaseClient();
+  }
+
+  /**
+   * Authorized request under the policy. On 401 the token is refreshed
+   * once and the request sent again.
+   */
+  private async request(url: string, init: RequestInit, options?: RunOptions): Promise<Response> {
+    const send = () => this.policy.fetch(url, {
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string> | undefined),
+        Authorization: `Bearer ${this.accessToken}`,
+      },
+    }, options);
+
+    const response = await send();
+    if (response.status === 401 && await this.refreshAccessToken()) {
+      return send();
+    }
+    return response;
+  }
+
+  private async refreshAccessToken(): Promise<boolean> {
+    const accessToken = await this.onUnauthorized?.();
+    if (!accessToken) return false;
+    this.setAccessToken(accessToken);
+    return true;
+  }
+
+  private createBaseClient(): BaseRestLensClient {
+    return new BaseRestLensClient({
+      baseUrl: this.baseUrl,
+      accessToken: this.accessToken,
+      orgSlug: this.orgSlug,
+      projectSlug: this.projectSlug,
+      logger: this.logger,
+    });
+  }
 }
@@ -0,0 +1,275 @@
+/**
+ * Spec AST
+ *
+ * Position-aware YAML/JSON parsing, JSON pointer helpers and minimal text
+ * edits. JSON documents are parsed with the YAML parser, which accepts them
+ * as flow collections, so one code path serves both formats.
+ */
+
+import { Position, Range, TextEdit } from "vscode-languageserver/node";
+import {
+  parseDocument,
+  isMap,
+  isScalar,
+  isSeq,
+  LineCounter,
+  Scalar,
+  type Document,
+  type Node,
+  type YAMLMap,
+} from "yaml";
+
+export interface SpecAst {
+  document: Document.Parsed;
+  lineCounter: LineCounter;
+}
+
+export interface AstNode {
+  /** Key scalar of the map entry holding the node (null for sequence items and the root) */
+  key: Node | null;
+  /** The node itself (null for keys without a value) */
+  value: Node | null;
+}
+
+/**
+ * Parse YAML or JSON text into a position-aware AST.
+ */
+export function parseSpecAst(text: string): SpecAst {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter, uniqueKeys: false });
+  return { document, lineCounter };
+}
+
+/**
+ * Find the node at a JSON pointer (given as unescaped segments).
+ */
+export function findAstNode(ast: SpecAst, pointer: string[]): AstNode | null {
+  let key: Node | null = null;
+  let value: unknown = ast.document.contents;
+
+  for (const segment of pointer) {
+    if (isMap(value)) {
+      const pair = value.items.find((item) => isScalar(item.key) && String(item.key.value) === segment);
+      if (!pair) return null;
+      key = pair.key as Node;
+      value = pair.value;
+    } else if (isSeq(value)) {
+      const index = Number(segment);
+      if (!Number.isInteger(index) || index < 0 || index >= value.items.length) return null;
+      key = null;
+      value = value.items[index];
+    } else {
+      return null;
+    }
+  }
+
+  return { key, value: (value as Node | null) ?? null };
+}
+
+/**
+ * Range of a node in the source text.
+ */
+export function nodeRange(ast: SpecAst, node: Node): Range | null {
+  if (!node.range) return null;
+  const [start, end] = node.range;
+  return {
+    start: offsetToPosition(ast, start),
+    end: offsetToPosition(ast, end),
+  };
+}
+
+/**
+ * Range to highlight for the node at a pointer: the map key when there is
+ * one, so multi-line nodes only mark their first line. Sequence items have
+ * no key and are cut off at the end of their first line.
+ */
+export function pointerRange(ast: SpecAst, pointer: string[]): Range | null {
+  const found = findAstNode(ast, pointer);
+  if (!found) return null;
+  if (found.key) return nodeRange(ast, found.key);
+  if (!found.value) return null;
+
+  const range = nodeRange(ast, found.value);
+  if (!range || range.end.line === range.start.line) return range;
+  const nextLineStart = ast.lineCounter.lineStarts[range.start.line + 1];
+  const lineEnd = offsetToPosition(ast, nextLineStart - 1);
+  return { start: range.start, end: lineEnd };
+}
+
+/**
+ * Pointer of the innermost node at a position. A position on a map key
+ * yields the pointer of that entry.
+ */
+export function pointerAt(ast: SpecAst, position: Position): string[] {
+  const offset = positionToOffset(ast, position);
+  const contains = (node: Node | null) => !!node?.range && offset >= node.range[0] && offset <= node.range[1];
+  const pointer: string[] = [];
+  let value = ast.document.contents as Node | null;
+
+  while (value) {
+    let next: Node | null = null;
+    if (isMap(value)) {
+      for (const pair of value.items) {
+        const key = pair.key as Node | null;
+        const pairValue = pair.value as Node | null;
+        const onKey = contains(key);
+        if (onKey || contains(pairValue)) {
+          pointer.push(isScalar(key) ? String(key.value) : "");
+          if (onKey) return pointer;
+          next = pairValue;
+          break;
+        }
+      }
+    } else if (isSeq(value)) {
+      const index = value.items.findIndex((item) => contains(item as Node | null));
+      if (index >= 0) {
+        pointer.push(String(index));
+        next = value.items[index] as Node;
+      }
+    }
+    value = next;
+  }
+
+  return pointer;
+}
+
+/**
+ * The mapping at a pointer, or its closest ancestor that is a mapping,
+ * along with that mapping's pointer.
+ */
+export function nearestMap(ast: SpecAst, pointer: string[]): { map: YAMLMap; pointer: string[] } | null {
+  for (let length = pointer.length; length >= 0; length--) {
+    const node = findAstNode(ast, pointer.slice(0, length))?.value;
+    if (isMap(node)) {
+      return { map: node, pointer: pointer.slice(0, length) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert a source offset to an LSP position.
+ */
+export function offsetToPosition(ast: SpecAst, offset: number): Position {
+  const { line, col } = ast.lineCounter.linePos(offset);
+  return { line: Math.max(line - 1, 0), character: Math.max(col - 1, 0) };
+}
+
+/**
+ * Convert an LSP position to a source offset.
+ */
+export function positionToOffset(ast: SpecAst, position: Position): number {
+  const lineStart = ast.lineCounter.lineStarts[position.line];
+  return lineStart === undefined ? Number.MAX_SAFE_INTEGER : lineStart + position.character;
+}
+
+// =============================================================================
+// Text Edits
+// =============================================================================
+
+/**
+ * Whether the text is a JSON document rather than YAML.
+ */
+export function isJsonText(text: string): boolean {
+  return text.trimStart().startsWith("{");
+}
+
+/**
+ * Edit inserting an entry before the first key of a mapping, aligned with
+ * its siblings. `entry` is the full "key: value" text; continuation lines
+ * are indented relative to the key. Everything else is left untouched, so
+ * formatting and comments survive.
+ */
+export function insertEntryEdit(ast: SpecAst, text: string, map: YAMLMap, entry: string): TextEdit | null {
+  if (map.items.length === 0) {
+    // Only flow mappings ({}) can be empty
+    if (!map.flow || !map.range) return null;
+    return {
+      range: { start: offsetToPosition(ast, map.range[0]), end: offsetToPosition(ast, map.range[1]) },
+      newText: isJsonText(text) ? `{${entry}}` : `{ ${entry} }`,
+    };
+  }
+
+  const firstKey = map.items[0].key as Node | null;
+  if (!firstKey?.range) return null;
+  const start = offsetToPosition(ast, firstKey.range[0]);
+  const indent = " ".repeat(start.character);
+  const body = entry.split("\n").join(`\n${indent}`);
+
+  let newText = `${body}\n${indent}`;
+  if (map.flow) {
+    // Flow mappings need a comma; keep one entry per line if the mapping does
+    const multiline = map.range ? text.slice(map.range[0], firstKey.range[0]).includes("\n") : false;
+    newText = multiline ? `${body},\n${indent}` : `${body}, `;
+  }
+
+  return { range: { start, end: start }, newText };
+}
+
+/**
+ * Edit replacing a scalar's value, keeping its quoting style.
+ */
+export function replaceScalarEdit(ast: SpecAst, node: Node, value: string): TextEdit | null {
+  if (!isScalar(node) || !node.range) return null;
+
+  let newText = value;
+  if (node.type === Scalar.QUOTE_DOUBLE) {
+    newText = JSON.stringify(value);
+  } else if (node.type === Scalar.QUOTE_SINGLE) {
+    newText = `'${value.replace(/'/g, "''")}'`;
+  }
+
+  return {
+    range: { start: offsetToPosition(ast, node.range[0]), end: offsetToPosition(ast, node.range[1]) },
+    newText,
+  };
+}
+
+/**
+ * Width of one indentation level, guessed from the first indented line.
+ */
+export function indentUnit(text: string): number {
+  const match = /^( +)\S/m.exec(text);
+  return match ? match[1].length : 2;
+}
+
+// =============================================================================
+// JSON Pointers
+// =============================================================================
+
+/**
+ * Split a JSON pointer (optionally prefixed with '#') into unescaped segments.
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  let raw = pointer.startsWith("#") ? pointer.slice(1) : pointer;
+  try {
+    raw = decodeURIComponent(raw);
+  } catch {
+    // Keep the raw pointer if it is not valid URI encoding
+  }
+  if (raw === "" || raw === "/") return [];
+  return raw
+    .replace(/^\//, "")
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Build a '#/...' JSON pointer from unescaped segments.
+ */
+export function toJsonPointer(segments: string[]): string {
+  if (segments.length === 0) return "#";
+  return "#/" + segments.map((segment) => segment.replace(/~/g, "~0").replace(/\//g, "~1")).join("/");
+}
+
+/**
+ * Get the value at a pointer in a plain JS object, or undefined.
+ */
+export function getAtPointer(root: unknown, pointer: string[]): unknown {
+  let current = root;
+  for (const segment of pointer) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
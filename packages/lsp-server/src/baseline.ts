@@ -0,0 +1,138 @@
+/**
+ * Baselines
+ *
+ * Matching violations against an earlier set of violations of the same
+ * spec. Violations are identified by their ViolationKey and rule, never by
+ * line, so known findings stay known across unrelated edits.
+ */
+
+import type { ViolationKV } from "@restlens/lib";
+import type { ViolationKey } from "./api-client";
+
+/**
+ * Identity of a violation for baseline matching.
+ */
+export function violationSignature(key: ViolationKey, ruleSlug: string | undefined): string {
+  return JSON.stringify([
+    key.path ?? null,
+    key.operation_id ?? null,
+    key.http_code !== undefined ? String(key.http_code) : null,
+    key.schema_path ?? null,
+    ruleSlug ?? null,
+  ]);
+}
+
+/**
+ * Signatures of every violation message.
+ */
+export function violationSignatures(violations: ViolationKV[]): Set<string> {
+  const signatures = new Set<string>();
+  for (const violation of violations) {
+    for (const v of violation.value) {
+      signatures.add(violationSignature(violation.key, v.rule_slug));
+    }
+  }
+  return signatures;
+}
+
+/**
+ * Drop violation messages whose signature is in the baseline.
+ * `hidden` is the number of messages dropped.
+ */
+export function excludeBaseline(violations: ViolationKV[], baseline: Set<string>): { violations: ViolationKV[]; hidden: number } {
+  if (baseline.size === 0) return { violations, hidden: 0 };
+
+  const result: ViolationKV[] = [];
+  let hidden = 0;
+  for (const violation of violations) {
+    const value = violation.value.filter((v) => !baseline.has(violationSignature(violation.key, v.rule_slug)));
+    hidden += violation.value.length - value.length;
+    if (value.length > 0) {
+      result.push(value.length === violation.value.length ? violation : { ...violation, value });
+    }
+  }
+  return { violations: result, hidden };
+}
+
+// =============================================================================
+// Baseline File
+// =============================================================================
+
+/** Checked-in baseline, at the root of each workspace folder */
+export const BASELINE_FILE = ".restlens-baseline.json";
+
+export interface BaselineEntry {
+  rule: string;
+  path?: string;
+  operation_id?: string;
+  http_code?: string;
+  schema_path?: string;
+}
+
+export interface BaselineFile {
+  version: 1;
+  /** Entries per spec, keyed by the spec's path relative to the baseline file */
+  specs: Record<string, BaselineEntry[]>;
+}
+
+/**
+ * Read a baseline file. Returns null for malformed content.
+ */
+export function parseBaselineFile(text: string): BaselineFile | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object") return null;
+
+  const specs = (data as { specs?: unknown }).specs;
+  if (!specs || typeof specs !== "object" || Array.isArray(specs)) return null;
+
+  const result: BaselineFile = { version: 1, specs: {} };
+  for (const [spec, entries] of Object.entries(specs)) {
+    if (!Array.isArray(entries)) continue;
+    result.specs[spec] = entries.filter(
+      (entry): entry is BaselineEntry => !!entry && typeof entry === "object" && typeof entry.rule === "string"
+    );
+  }
+  return result;
+}
+
+/**
+ * Serialize a baseline file with sorted specs and entries, so snapshots of
+ * the same findings produce the same file.
+ */
+export function serializeBaselineFile(file: BaselineFile): string {
+  const specs: Record<string, BaselineEntry[]> = {};
+  for (const spec of Object.keys(file.specs).sort()) {
+    if (file.specs[spec].length === 0) continue;
+    specs[spec] = [...file.specs[spec]].sort((a, b) => entrySignature(a).localeCompare(entrySignature(b)));
+  }
+  return JSON.stringify({ version: 1, specs }, null, 2) + "\n";
+}
+
+/**
+ * One entry per distinct location and rule of the violations.
+ */
+export function baselineEntries(violations: ViolationKV[]): BaselineEntry[] {
+  const entries = new Map<string, BaselineEntry>();
+  for (const violation of violations) {
+    for (const v of violation.value) {
+      if (!v.rule_slug) continue;
+      const { path, operation_id, http_code, schema_path } = violation.key;
+      const entry: BaselineEntry = { rule: v.rule_slug };
+      if (path !== undefined) entry.path = path;
+      if (operation_id !== undefined) entry.operation_id = operation_id;
+      if (http_code !== undefined) entry.http_code = String(http_code);
+      if (schema_path !== undefined) entry.schema_path = schema_path;
+      entries.set(entrySignature(entry), entry);
+    }
+  }
+  return Array.from(entries.values());
+}
+
+export function entrySignature(entry: BaselineEntry): string {
+  return violationSignature(entry, entry.rule);
+}
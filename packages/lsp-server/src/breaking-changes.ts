@@ -0,0 +1,515 @@
+/**
+ * Breaking Changes
+ *
+ * Compares a spec with a previous version of itself and reports changes
+ * that break existing clients: removed operations and response codes, new
+ * required parameters, removed required properties, type changes, enums
+ * narrowed in requests and enums widened in responses.
+ */
+
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver/node";
+import { getAtPointer, parseJsonPointer, pointerRange, type SpecAst } from "./ast";
+import { HTTP_METHODS } from "./diagnostics";
+import type { BundledSpec } from "./ref-resolver";
+
+export const BREAKING_CHANGE_SOURCE = "REST Lens (breaking changes)";
+
+export type BreakingChangeKind =
+  | "operation-removed"
+  | "response-removed"
+  | "parameter-required"
+  | "property-removed"
+  | "property-required"
+  | "type-changed"
+  | "enum-narrowed"
+  | "enum-widened";
+
+export interface BreakingChange {
+  kind: BreakingChangeKind;
+  /** Node in the current spec the change is reported on (may not exist) */
+  pointer: string[];
+  message: string;
+}
+
+/** Which side of the API a schema describes; decides what breaks clients */
+type SchemaUsage = "request" | "response" | "both";
+
+type SpecObject = Record<string, unknown>;
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Breaking changes from `previous` to `current`.
+ */
+export function detectBreakingChanges(previous: object, current: object): BreakingChange[] {
+  const changes: BreakingChange[] = [];
+  const previousPaths = asObject(getAtPointer(previous, ["paths"]));
+  const currentPaths = asObject(getAtPointer(current, ["paths"]));
+
+  for (const [path, previousItem] of Object.entries(previousPaths)) {
+    const currentItem = asObject(currentPaths[path]);
+    for (const method of HTTP_METHODS) {
+      if (!(method in asObject(previousItem))) continue;
+      const previousOperation = asObject(asObject(previousItem)[method]);
+
+      const operation = `${method.toUpperCase()} ${path}`;
+      const pointer = ["paths", path, method];
+      if (!(method in currentItem)) {
+        changes.push({
+          kind: "operation-removed",
+          pointer: path in currentPaths ? ["paths", path] : ["paths"],
+          message: `Operation ${operation} was removed`,
+        });
+        continue;
+      }
+
+      const context: OperationContext = {
+        previous,
+        current,
+        previousItem: asObject(previousItem),
+        currentItem,
+        previousOperation,
+        currentOperation: asObject(currentItem[method]),
+        pointer,
+        operation,
+      };
+      compareParameters(context, changes);
+      compareRequestBody(context, changes);
+      compareResponses(context, changes);
+    }
+  }
+
+  // Shared schemas are compared once, by name, as used by the current spec
+  const previousSchemas = asObject(getAtPointer(previous, ["components", "schemas"]));
+  const currentSchemas = asObject(getAtPointer(current, ["components", "schemas"]));
+  const usages = schemaUsages(current);
+  for (const [name, schema] of Object.entries(previousSchemas)) {
+    if (name in currentSchemas) {
+      const usage = usages.get(name) ?? "both";
+      compareSchema(asObject(schema), asObject(currentSchemas[name]), ["components", "schemas", name], name, usage, changes);
+    }
+  }
+
+  return changes;
+}
+
+interface OperationContext {
+  previous: object;
+  current: object;
+  previousItem: SpecObject;
+  currentItem: SpecObject;
+  previousOperation: SpecObject;
+  currentOperation: SpecObject;
+  /** Pointer of the operation in the current spec */
+  pointer: string[];
+  /** "GET /users" */
+  operation: string;
+}
+
+function compareParameters(context: OperationContext, changes: BreakingChange[]): void {
+  const previous = operationParameters(context.previous, context.previousItem, context.previousOperation, []);
+  const current = operationParameters(context.current, context.currentItem, context.currentOperation, context.pointer);
+
+  for (const [id, parameter] of current) {
+    const name = `${parameter.value.in} parameter '${parameter.value.name}'`;
+    const before = previous.get(id);
+
+    if (parameter.value.required === true && before?.value.required !== true) {
+      changes.push({
+        kind: "parameter-required",
+        pointer: parameter.pointer,
+        message: before
+          ? `${capitalize(name)} of ${context.operation} is now required`
+          : `New required ${name} in ${context.operation}`,
+      });
+    }
+
+    if (before) {
+      compareSchema(
+        asObject(before.value.schema),
+        asObject(parameter.value.schema),
+        [...parameter.pointer, "schema"],
+        `${name} of ${context.operation}`,
+        "request",
+        changes
+      );
+    }
+  }
+}
+
+interface ParameterEntry {
+  value: SpecObject;
+  /** Pointer in the spec, where the parameter (or its $ref) is listed */
+  pointer: string[];
+}
+
+/**
+ * Parameters of an operation, including those of its path item, keyed by
+ * location and name. Operation parameters override path parameters.
+ */
+function operationParameters(
+  spec: object,
+  pathItem: SpecObject,
+  operation: SpecObject,
+  operationPointer: string[]
+): Map<string, ParameterEntry> {
+  const parameters = new Map<string, ParameterEntry>();
+  const collect = (list: unknown, pointer: string[]) => {
+    if (!Array.isArray(list)) return;
+    list.forEach((item, i) => {
+      const value = resolveLocal(spec, item);
+      if (typeof value.name === "string" && typeof value.in === "string") {
+        parameters.set(`${value.in}:${value.name}`, { value, pointer: [...pointer, "parameters", String(i)] });
+      }
+    });
+  };
+  collect(pathItem.parameters, operationPointer.slice(0, 2));
+  collect(operation.parameters, operationPointer);
+  return parameters;
+}
+
+function compareRequestBody(context: OperationContext, changes: BreakingChange[]): void {
+  const previous = resolveLocal(context.previous, context.previousOperation.requestBody);
+  const current = resolveLocal(context.current, context.currentOperation.requestBody);
+  const pointer = [...context.pointer, "requestBody"];
+
+  compareContent(
+    asObject(previous.content),
+    asObject(current.content),
+    [...pointer, "content"],
+    `request body of ${context.operation}`,
+    "request",
+    changes
+  );
+}
+
+function compareResponses(context: OperationContext, changes: BreakingChange[]): void {
+  const previous = asObject(context.previousOperation.responses);
+  const current = asObject(context.currentOperation.responses);
+  const pointer = [...context.pointer, "responses"];
+
+  for (const [code, previousResponse] of Object.entries(previous)) {
+    if (!(code in current)) {
+      changes.push({
+        kind: "response-removed",
+        pointer,
+        message: `Response ${code} of ${context.operation} was removed`,
+      });
+      continue;
+    }
+
+    compareContent(
+      asObject(resolveLocal(context.previous, previousResponse).content),
+      asObject(resolveLocal(context.current, current[code]).content),
+      [...pointer, code, "content"],
+      `${code} response of ${context.operation}`,
+      "response",
+      changes
+    );
+  }
+}
+
+function compareContent(
+  previous: SpecObject,
+  current: SpecObject,
+  pointer: string[],
+  label: string,
+  usage: SchemaUsage,
+  changes: BreakingChange[]
+): void {
+  for (const [mediaType, previousMedia] of Object.entries(previous)) {
+    if (!(mediaType in current)) continue;
+    compareSchema(
+      asObject(asObject(previousMedia).schema),
+      asObject(asObject(current[mediaType]).schema),
+      [...pointer, mediaType, "schema"],
+      label,
+      usage,
+      changes
+    );
+  }
+}
+
+/**
+ * Compare two versions of a schema. Schemas given by $ref are compared
+ * where the component is defined, not at every use.
+ */
+function compareSchema(
+  previous: SpecObject,
+  current: SpecObject,
+  pointer: string[],
+  label: string,
+  usage: SchemaUsage,
+  changes: BreakingChange[]
+): void {
+  if ("$ref" in previous || "$ref" in current) return;
+
+  const previousType = typesOf(previous);
+  const currentType = typesOf(current);
+  if (previousType && currentType && previousType !== currentType) {
+    changes.push({
+      kind: "type-changed",
+      pointer: [...pointer, "type"],
+      message: `Type of ${label} changed from ${previousType} to ${currentType}`,
+    });
+    return;
+  }
+
+  compareEnum(previous, current, pointer, label, usage, changes);
+
+  const previousProperties = asObject(previous.properties);
+  const currentProperties = asObject(current.properties);
+  const previousRequired = stringList(previous.required);
+  const currentRequired = stringList(current.required);
+
+  for (const name of previousRequired) {
+    if (!(name in currentProperties) && name in previousProperties) {
+      changes.push({
+        kind: "property-removed",
+        pointer: "properties" in current ? [...pointer, "properties"] : pointer,
+        message: `Required property '${name}' of ${label} was removed or renamed`,
+      });
+    }
+  }
+
+  // Clients that don't send a newly required property get rejected
+  if (usage !== "response") {
+    for (const name of currentRequired) {
+      if (!previousRequired.includes(name)) {
+        changes.push({
+          kind: "property-required",
+          pointer: [...pointer, "properties", name],
+          message: name in previousProperties
+            ? `Property '${name}' of ${label} is now required`
+            : `New required property '${name}' in ${label}`,
+        });
+      }
+    }
+  }
+
+  for (const [name, schema] of Object.entries(previousProperties)) {
+    if (name in currentProperties) {
+      compareSchema(
+        asObject(schema),
+        asObject(currentProperties[name]),
+        [...pointer, "properties", name],
+        `property '${name}' of ${label}`,
+        usage,
+        changes
+      );
+    }
+  }
+
+  if (previous.items && current.items) {
+    compareSchema(asObject(previous.items), asObject(current.items), [...pointer, "items"], `items of ${label}`, usage, changes);
+  }
+}
+
+/**
+ * Compare the allowed values of a schema. Clients may send values that are
+ * no longer accepted, so narrowing breaks requests; they may not handle
+ * values they never saw, so widening breaks responses.
+ */
+function compareEnum(
+  previous: SpecObject,
+  current: SpecObject,
+  pointer: string[],
+  label: string,
+  usage: SchemaUsage,
+  changes: BreakingChange[]
+): void {
+  const previousValues = Array.isArray(previous.enum) ? previous.enum : null;
+  const currentValues = Array.isArray(current.enum) ? current.enum : null;
+  if (!previousValues && !currentValues) return;
+
+  const plural = (values: unknown[]) => (values.length === 1 ? "" : "s");
+  const list = (values: unknown[]) => values.map(String).join(", ");
+
+  if (usage !== "response" && currentValues) {
+    const removed = previousValues ? missingFrom(previousValues, currentValues) : null;
+    if (!removed) {
+      changes.push({
+        kind: "enum-narrowed",
+        pointer: [...pointer, "enum"],
+        message: `Values of ${label} are now restricted to ${list(currentValues)}`,
+      });
+    } else if (removed.length > 0) {
+      changes.push({
+        kind: "enum-narrowed",
+        pointer: [...pointer, "enum"],
+        message: `Enum value${plural(removed)} ${list(removed)} removed from ${label}`,
+      });
+    }
+  }
+
+  if (usage !== "request" && previousValues) {
+    const added = currentValues ? missingFrom(currentValues, previousValues) : null;
+    if (!added) {
+      changes.push({
+        kind: "enum-widened",
+        pointer,
+        message: `Values of ${label} are no longer restricted to ${list(previousValues)}`,
+      });
+    } else if (added.length > 0) {
+      changes.push({
+        kind: "enum-widened",
+        pointer: [...pointer, "enum"],
+        message: `Enum value${plural(added)} ${list(added)} added to ${label}`,
+      });
+    }
+  }
+}
+
+/** Values of `values` that `other` doesn't have */
+function missingFrom(values: unknown[], other: unknown[]): unknown[] {
+  const known = new Set(other.map((value) => JSON.stringify(value)));
+  return values.filter((value) => !known.has(JSON.stringify(value)));
+}
+
+// Keys below which a spec describes what clients send or what they receive
+const REQUEST_KEYS = new Set(["parameters", "requestBody"]);
+const RESPONSE_KEYS = new Set(["responses"]);
+
+/**
+ * How each component schema is used by the operations of a spec, following
+ * local $refs. Callbacks and webhooks reverse the direction, so their
+ * schemas count as both. Schemas no operation reaches are missing from the
+ * map.
+ */
+function schemaUsages(spec: object): Map<string, SchemaUsage> {
+  const usages = new Map<string, SchemaUsage>();
+  const visited = new Set<string>();
+
+  // usage is null until a request or response key is passed
+  const visit = (value: unknown, usage: SchemaUsage | null, inSchema: boolean): void => {
+    if (!value || typeof value !== "object") return;
+    if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, usage, inSchema));
+      return;
+    }
+
+    const object = value as SpecObject;
+    if (typeof object.$ref === "string" && object.$ref.startsWith("#")) {
+      const pointer = parseJsonPointer(object.$ref);
+      const isSchema = pointer[0] === "components" && pointer[1] === "schemas" && pointer.length >= 3;
+      if (isSchema) {
+        const previous = usages.get(pointer[2]);
+        usages.set(pointer[2], !usage || (previous && previous !== usage) ? "both" : usage);
+      }
+      const key = `${usage}:${object.$ref}`;
+      if (!visited.has(key)) {
+        visited.add(key);
+        visit(getAtPointer(spec, pointer), usage, inSchema || isSchema);
+      }
+    }
+
+    for (const [key, child] of Object.entries(object)) {
+      if (key === "$ref") continue;
+      // Inside a schema, keys are property names, not spec keywords
+      if (inSchema) {
+        visit(child, usage, true);
+      } else if (key === "schema") {
+        visit(child, usage, true);
+      } else if (key === "callbacks") {
+        visit(child, "both", false);
+      } else if (REQUEST_KEYS.has(key) && !usage) {
+        visit(child, "request", false);
+      } else if (RESPONSE_KEYS.has(key) && !usage) {
+        visit(child, "response", false);
+      } else {
+        visit(child, usage, false);
+      }
+    }
+  };
+
+  for (const pathItem of Object.values(asObject(getAtPointer(spec, ["paths"])))) {
+    visit(pathItem, null, false);
+  }
+  for (const pathItem of Object.values(asObject(getAtPointer(spec, ["webhooks"])))) {
+    visit(pathItem, "both", false);
+  }
+  return usages;
+}
+
+// =============================================================================
+// Diagnostics
+// =============================================================================
+
+/**
+ * Diagnostics for breaking changes of a root spec. Changes inside inlined
+ * external files are reported on the $ref that includes them.
+ */
+export function breakingChangesToDiagnostics(changes: BreakingChange[], ast: SpecAst, bundle: BundledSpec): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const change of changes) {
+    const pointer = rootPointer(change.pointer, bundle);
+    const range = nearestRange(ast, pointer);
+    if (!range) continue;
+    diagnostics.push({
+      range,
+      severity: DiagnosticSeverity.Warning,
+      message: change.message,
+      source: BREAKING_CHANGE_SOURCE,
+      code: change.kind,
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * The pointer itself, or the $ref in the root document that inlined it.
+ */
+function rootPointer(pointer: string[], bundle: BundledSpec): string[] {
+  let outermost: string[] | null = null;
+  for (const source of bundle.sources) {
+    if (source.pointer.length > pointer.length) continue;
+    if (outermost && source.pointer.length >= outermost.length) continue;
+    if (source.pointer.every((segment, i) => pointer[i] === segment)) {
+      outermost = source.pointer;
+    }
+  }
+  return outermost ?? pointer;
+}
+
+function nearestRange(ast: SpecAst, pointer: string[]): Range | null {
+  for (let length = pointer.length; length > 0; length--) {
+    const range = pointerRange(ast, pointer.slice(0, length));
+    if (range) return range;
+  }
+  return null;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function asObject(value: unknown): SpecObject {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as SpecObject) : {};
+}
+
+/**
+ * Follow a local $ref ('#/...') to its target, once.
+ */
+function resolveLocal(spec: object, value: unknown): SpecObject {
+  const object = asObject(value);
+  if (typeof object.$ref === "string" && object.$ref.startsWith("#")) {
+    return asObject(getAtPointer(spec, parseJsonPointer(object.$ref)));
+  }
+  return object;
+}
+
+function typesOf(schema: SpecObject): string | null {
+  if (typeof schema.type === "string") return schema.type;
+  if (Array.isArray(schema.type)) return schema.type.map(String).sort().join(" | ");
+  return null;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
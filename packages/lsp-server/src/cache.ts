@@ -1,15 +1,28 @@
 /**
  * Diagnostics Cache
  *
- * LRU cache for storing diagnostics results keyed by content hash.
+ * LRU cache for storing raw evaluation results keyed by content hash and
+ * the project they were evaluated against. Results are turned into
+ * diagnostics at publish time, so display settings (like info severity)
+ * never require a new evaluation.
  */
 
 import { Diagnostic } from "vscode-languageserver/node";
 import { LRUCache } from "lru-cache";
 import { createHash } from "crypto";
+import type { ViolationKV } from "@restlens/lib";
+
+/**
+ * What a cached result depends on besides the document content.
+ */
+export interface CacheScope {
+  organization: string;
+  project: string;
+  apiUrl: string;
+}
 
 interface CacheEntry {
-  diagnostics: Diagnostic[];
+  violations: ViolationKV[];
   timestamp: number;
 }
 
@@ -27,10 +40,10 @@ export class DiagnosticsCache {
   }
 
   /**
-   * Get cached diagnostics for content.
+   * Get cached violations for content evaluated in a scope.
    */
-  get(content: string): Diagnostic[] | null {
-    const key = this.hashContent(content);
+  get(content: string, scope: CacheScope): ViolationKV[] | null {
+    const key = this.cacheKey(content, scope);
     const entry = this.cache.get(key);
 
     if (!entry) {
@@ -43,20 +56,28 @@ export class DiagnosticsCache {
       return null;
     }
 
-    return entry.diagnostics;
+    return entry.violations;
   }
 
   /**
-   * Cache diagnostics for content.
+   * Cache violations for content evaluated in a scope.
    */
-  set(content: string, diagnostics: Diagnostic[]): void {
-    const key = this.hashContent(content);
+  set(content: string, scope: CacheScope, violations: ViolationKV[]): void {
+    const key = this.cacheKey(content, scope);
     this.cache.set(key, {
-      diagnostics,
+      violations,
       timestamp: Date.now(),
     });
   }
 
+  /**
+   * Result id for a set of diagnostics (pull diagnostics).
+   * Identical diagnostics get the same id, so clients can be told "unchanged".
+   */
+  resultId(diagnostics: Diagnostic[]): string {
+    return this.hashContent(JSON.stringify(diagnostics)).slice(0, 16);
+  }
+
   /**
    * Clear all cached entries.
    */
@@ -64,6 +85,13 @@ export class DiagnosticsCache {
     this.cache.clear();
   }
 
+  /**
+   * Cache key: content hash combined with the scope.
+   */
+  private cacheKey(content: string, scope: CacheScope): string {
+    return this.hashContent([scope.apiUrl, scope.organization, scope.project, content].join("\0"));
+  }
+
   /**
    * Hash content for cache key.
    */
@@ -0,0 +1,121 @@
+/**
+ * Code Lenses
+ *
+ * Per-operation violation counts shown above path items and operations that
+ * have violations; clean ones get no lens. Violations are grouped by their
+ * ViolationKey (path, operation_id), not by the line their diagnostic landed on.
+ */
+
+import { CodeLens, Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver/node";
+import type { ViolationKey } from "./api-client";
+import { getAtPointer, parseSpecAst, pointerRange } from "./ast";
+import { HTTP_METHODS, violationPointer } from "./diagnostics";
+
+/** Client command listing the violations behind a lens */
+export const SHOW_VIOLATIONS_COMMAND = "restlens.showViolations";
+
+/**
+ * A published diagnostic together with the violation it came from.
+ * Diagnostics may live in external $ref files of the spec.
+ */
+export interface LensViolation {
+  uri: string;
+  diagnostic: Diagnostic;
+  key: ViolationKey;
+  ruleSlug: string;
+}
+
+/**
+ * Entry of the list opened from a lens.
+ */
+export interface ViolationListItem {
+  uri: string;
+  range: Range;
+  message: string;
+  severity?: DiagnosticSeverity;
+  ruleSlug: string;
+}
+
+/**
+ * Build a lens for each path item and operation of a spec that has violations.
+ */
+export function buildCodeLenses(text: string, violations: LensViolation[]): CodeLens[] {
+  const ast = parseSpecAst(text);
+  const spec = ast.document.toJS() as unknown;
+  const paths = getAtPointer(spec, ["paths"]);
+  if (!paths || typeof paths !== "object") return [];
+
+  // Group by path, then by method ("" for the path item itself)
+  const byPath = new Map<string, Map<string, LensViolation[]>>();
+  for (const violation of violations) {
+    // Findings on nodes that are gone still count toward their operation
+    const { path, operation_id } = violation.key;
+    const pointer = violationPointer(violation.key, spec) ?? violationPointer({ path, operation_id }, spec);
+    if (!pointer || pointer[0] !== "paths" || pointer.length < 2) continue;
+    const method = HTTP_METHODS.includes(pointer[2]) ? pointer[2] : "";
+
+    if (!byPath.has(pointer[1])) byPath.set(pointer[1], new Map());
+    const byMethod = byPath.get(pointer[1])!;
+    if (!byMethod.has(method)) byMethod.set(method, []);
+    byMethod.get(method)!.push(violation);
+  }
+
+  const lenses: CodeLens[] = [];
+  for (const [path, pathItem] of Object.entries(paths)) {
+    const byMethod = byPath.get(path);
+    if (!byMethod) continue;
+
+    const range = pointerRange(ast, ["paths", path]);
+    if (range) {
+      lenses.push(lensFor(range, path, Array.from(byMethod.values()).flat()));
+    }
+
+    if (!pathItem || typeof pathItem !== "object") continue;
+    for (const method of HTTP_METHODS) {
+      const operationViolations = byMethod.get(method);
+      if (!(method in pathItem) || !operationViolations) continue;
+      const operationRange = pointerRange(ast, ["paths", path, method]);
+      if (operationRange) {
+        lenses.push(lensFor(operationRange, `${method.toUpperCase()} ${path}`, operationViolations));
+      }
+    }
+  }
+
+  return lenses;
+}
+
+function lensFor(range: Range, label: string, violations: LensViolation[]): CodeLens {
+  const title = `${summarize(violations)} — REST Lens`;
+  const items: ViolationListItem[] = violations.map((violation) => ({
+    uri: violation.uri,
+    range: violation.diagnostic.range,
+    message: violation.diagnostic.message,
+    severity: violation.diagnostic.severity,
+    ruleSlug: violation.ruleSlug,
+  }));
+
+  return {
+    range,
+    command: { title, command: SHOW_VIOLATIONS_COMMAND, arguments: [label, items] },
+  };
+}
+
+/**
+ * "2 errors · 1 warning" style summary of violation severities.
+ */
+function summarize(violations: LensViolation[]): string {
+  const counts = [
+    { severity: DiagnosticSeverity.Error, name: "error" },
+    { severity: DiagnosticSeverity.Warning, name: "warning" },
+    { severity: DiagnosticSeverity.Information, name: "info" },
+    { severity: DiagnosticSeverity.Hint, name: "hint" },
+  ].map(({ severity, name }) => ({
+    name,
+    count: violations.filter((v) => (v.diagnostic.severity ?? DiagnosticSeverity.Warning) === severity).length,
+  }));
+
+  return counts
+    .filter(({ count }) => count > 0)
+    .map(({ name, count }) => `${count} ${name}${count === 1 || name === "info" ? "" : "s"}`)
+    .join(" · ");
+}
@@ -0,0 +1,312 @@
+/**
+ * Completions
+ *
+ * OpenAPI-aware completions: $ref targets (components of the document and
+ * relative files), status codes under `responses`, media types under
+ * `content` and declared security schemes under `security`.
+ *
+ * Documents are usually incomplete while typing, so the cursor context is
+ * read from the text (indentation for YAML, brackets for JSON) rather than
+ * from the parsed document.
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { CompletionItem, CompletionItemKind, Position, Range } from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import { getAtPointer, isJsonText, parseSpecAst, toJsonPointer } from "./ast";
+
+export const COMPLETION_TRIGGER_CHARACTERS = ["/", "#", '"', "'"];
+
+const STATUS_CODES: Record<string, string> = {
+  "100": "Continue",
+  "101": "Switching Protocols",
+  "200": "OK",
+  "201": "Created",
+  "202": "Accepted",
+  "203": "Non-Authoritative Information",
+  "204": "No Content",
+  "205": "Reset Content",
+  "206": "Partial Content",
+  "207": "Multi-Status",
+  "300": "Multiple Choices",
+  "301": "Moved Permanently",
+  "302": "Found",
+  "303": "See Other",
+  "304": "Not Modified",
+  "307": "Temporary Redirect",
+  "308": "Permanent Redirect",
+  "400": "Bad Request",
+  "401": "Unauthorized",
+  "402": "Payment Required",
+  "403": "Forbidden",
+  "404": "Not Found",
+  "405": "Method Not Allowed",
+  "406": "Not Acceptable",
+  "408": "Request Timeout",
+  "409": "Conflict",
+  "410": "Gone",
+  "411": "Length Required",
+  "412": "Precondition Failed",
+  "413": "Content Too Large",
+  "414": "URI Too Long",
+  "415": "Unsupported Media Type",
+  "416": "Range Not Satisfiable",
+  "417": "Expectation Failed",
+  "422": "Unprocessable Content",
+  "423": "Locked",
+  "424": "Failed Dependency",
+  "428": "Precondition Required",
+  "429": "Too Many Requests",
+  "431": "Request Header Fields Too Large",
+  "451": "Unavailable For Legal Reasons",
+  "500": "Internal Server Error",
+  "501": "Not Implemented",
+  "502": "Bad Gateway",
+  "503": "Service Unavailable",
+  "504": "Gateway Timeout",
+  "505": "HTTP Version Not Supported",
+  "1XX": "Any informational response",
+  "2XX": "Any successful response",
+  "3XX": "Any redirection",
+  "4XX": "Any client error",
+  "5XX": "Any server error",
+  default: "Any other response",
+};
+
+const MEDIA_TYPES = [
+  "application/json",
+  "application/problem+json",
+  "application/merge-patch+json",
+  "application/json-patch+json",
+  "application/x-ndjson",
+  "application/xml",
+  "application/x-www-form-urlencoded",
+  "multipart/form-data",
+  "application/octet-stream",
+  "application/pdf",
+  "text/plain",
+  "text/html",
+  "text/csv",
+  "text/event-stream",
+  "image/png",
+  "image/jpeg",
+  "*/*",
+];
+
+const SPEC_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+// `$ref: '#/compo` -> the value typed so far, with its opening quote
+const REF_VALUE = /["']?\$ref["']?\s*:\s*(["']?)([^"']*)$/;
+
+/**
+ * Completions at a position of a spec.
+ */
+export async function getCompletions(uri: string, text: string, position: Position): Promise<CompletionItem[]> {
+  const lines = text.split("\n");
+  const before = (lines[position.line] ?? "").slice(0, position.character);
+  const json = isJsonText(text);
+
+  const refValue = REF_VALUE.exec(before);
+  if (refValue) {
+    const [, quote, prefix] = refValue;
+    const range = { start: { line: position.line, character: position.character - prefix.length }, end: position };
+    return [
+      ...componentRefCompletions(text, range, prefix, !json && !quote),
+      ...(await fileRefCompletions(uri, range, prefix)),
+    ];
+  }
+
+  const key = typedKey(before, json);
+  if (key === null) return [];
+
+  const range = { start: { line: position.line, character: position.character - key.length }, end: position };
+  const context = json
+    ? jsonContext(lines.slice(0, position.line).concat(before.slice(0, range.start.character)).join("\n"))
+    : yamlContext(lines, position.line);
+  const parent = context[context.length - 1];
+  const quote = /^["']/.test(key) ? key[0] : "";
+
+  if (parent === "responses") {
+    return Object.entries(STATUS_CODES).map(([code, reason], i) => ({
+      label: code,
+      kind: CompletionItemKind.EnumMember,
+      detail: reason,
+      filterText: `${quote}${code}`,
+      sortText: String(i).padStart(3, "0"),
+      textEdit: { range, newText: json ? `"${code}": {}` : `"${code}":` },
+    }));
+  }
+
+  if (parent === "content") {
+    return MEDIA_TYPES.map((mediaType, i) => ({
+      label: mediaType,
+      kind: CompletionItemKind.Value,
+      filterText: `${quote}${mediaType}`,
+      sortText: String(i).padStart(3, "0"),
+      textEdit: { range, newText: json ? `"${mediaType}": {}` : `${quoteIfNeeded(mediaType)}:` },
+    }));
+  }
+
+  if (parent === "-" && context[context.length - 2] === "security") {
+    const schemes = getAtPointer(parseSpecAst(text).document.toJS(), ["components", "securitySchemes"]);
+    if (!schemes || typeof schemes !== "object") return [];
+    return Object.keys(schemes).map((name) => ({
+      label: name,
+      kind: CompletionItemKind.Reference,
+      detail: "Security scheme",
+      filterText: `${quote}${name}`,
+      textEdit: { range, newText: json ? `"${name}": []` : `${name}: []` },
+    }));
+  }
+
+  return [];
+}
+
+// =============================================================================
+// $ref Targets
+// =============================================================================
+
+function componentRefCompletions(text: string, range: Range, prefix: string, needsQuotes: boolean): CompletionItem[] {
+  if (prefix !== "" && !prefix.startsWith("#")) return [];
+
+  const components = getAtPointer(parseSpecAst(text).document.toJS(), ["components"]);
+  if (!components || typeof components !== "object") return [];
+
+  const items: CompletionItem[] = [];
+  for (const [kind, group] of Object.entries(components)) {
+    if (!group || typeof group !== "object" || kind === "securitySchemes") continue;
+    for (const name of Object.keys(group)) {
+      const ref = toJsonPointer(["components", kind, name]);
+      items.push({
+        label: ref,
+        kind: CompletionItemKind.Reference,
+        detail: kind,
+        filterText: ref,
+        // A bare # starts a YAML comment
+        textEdit: { range, newText: needsQuotes ? `'${ref}'` : ref },
+      });
+    }
+  }
+  return items;
+}
+
+async function fileRefCompletions(uri: string, range: Range, prefix: string): Promise<CompletionItem[]> {
+  if (prefix.includes("#") || URI.parse(uri).scheme !== "file") return [];
+
+  const slash = prefix.lastIndexOf("/");
+  const directoryPart = prefix.slice(0, slash + 1);
+  const directory = path.resolve(path.dirname(URI.parse(uri).fsPath), directoryPart);
+  const self = URI.parse(uri).fsPath;
+
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const items: CompletionItem[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    if (entry.isDirectory()) {
+      items.push({
+        label: `${entry.name}/`,
+        kind: CompletionItemKind.Folder,
+        filterText: `${directoryPart}${entry.name}/`,
+        textEdit: { range, newText: `${directoryPart}${entry.name}/` },
+        // Keep completing inside the folder
+        command: { title: "", command: "editor.action.triggerSuggest" },
+      });
+    } else if (
+      entry.isFile() &&
+      SPEC_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()) &&
+      path.join(directory, entry.name) !== self
+    ) {
+      items.push({
+        label: entry.name,
+        kind: CompletionItemKind.File,
+        filterText: `${directoryPart}${entry.name}`,
+        textEdit: { range, newText: `${directoryPart}${entry.name}` },
+      });
+    }
+  }
+  return items;
+}
+
+// =============================================================================
+// Cursor Context
+// =============================================================================
+
+/**
+ * The key being typed (possibly empty, with its opening quote), or null
+ * when the cursor is not at a key position.
+ */
+function typedKey(before: string, json: boolean): string | null {
+  const match = json ? /(?:^|[{,])\s*("?[^"\s:{},]*)$/.exec(before) : /^\s*(?:-\s+)?(["']?[^"'\s:#]*)$/.exec(before);
+  return match ? match[1] : null;
+}
+
+/**
+ * Keys of the YAML mappings enclosing a line, outermost first, with "-"
+ * for sequence items. Found by indentation, so it works on broken documents.
+ */
+function yamlContext(lines: string[], line: number): string[] {
+  const context: string[] = [];
+  const current = lines[line] ?? "";
+  let indent = current.search(/\S|$/);
+
+  if (/^\s*-(\s|$)/.test(current)) {
+    context.push("-");
+  }
+
+  for (let i = line - 1; i >= 0 && indent > 0; i--) {
+    const text = lines[i];
+    const lineIndent = text.search(/\S/);
+    if (lineIndent < 0 || lineIndent >= indent || text[lineIndent] === "#") continue;
+
+    const rest = text.slice(lineIndent);
+    indent = lineIndent;
+    if (/^-(\s|$)/.test(rest)) {
+      context.unshift("-");
+      continue;
+    }
+    const key = /^(["']?)([^"':#]+)\1\s*:(\s|$)/.exec(rest);
+    context.unshift(key ? key[2].trim() : "");
+  }
+
+  return context;
+}
+
+/**
+ * Keys of the JSON objects and arrays enclosing the end of the text,
+ * outermost first, with "-" for array items.
+ */
+function jsonContext(text: string): string[] {
+  const context: string[] = [];
+  let depth = 0;
+
+  for (let i = text.length - 1; i >= 0; i--) {
+    const char = text[i];
+    if (char === '"') {
+      // Skip back over the string
+      i--;
+      while (i >= 0 && !(text[i] === '"' && text[i - 1] !== "\\")) i--;
+    } else if (char === "}" || char === "]") {
+      depth++;
+    } else if (char === "{" || char === "[") {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      const key = /"((?:[^"\\]|\\.)*)"\s*:\s*$/.exec(text.slice(Math.max(i - 200, 0), i));
+      context.unshift(key ? key[1] : /[[,]\s*$/.test(text.slice(0, i)) ? "-" : "");
+    }
+  }
+
+  return context;
+}
+
+function quoteIfNeeded(value: string): string {
+  return /^[\w./+-]+$/.test(value) ? value : `"${value}"`;
+}
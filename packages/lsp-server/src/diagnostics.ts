@@ -1,10 +1,12 @@
 /**
  * Diagnostics Converter
  *
- * Converts REST Lens violations to LSP diagnostics.
+ * Converts REST Lens violations to LSP diagnostics. Each violation key is
+ * resolved to its node in the document's AST; the text heuristics of
+ * findViolationLine() are only used when that fails.
  */
 
-import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver/node";
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag, Range } from "vscode-languageserver/node";
 import { TextDocument } from "vscode-languageserver-textdocument";
 import {
   findViolationLine,
@@ -13,6 +15,24 @@ import {
   type ViolationKV,
   type Severity,
 } from "@restlens/lib";
+import type { ViolationKey } from "./api-client";
+import { getAtPointer, parseJsonPointer, parseSpecAst, pointerRange, type SpecAst } from "./ast";
+import { violationSignature } from "./baseline";
+import { locateInBundle, type BundledSpec } from "./ref-resolver";
+import {
+  collectSuppressions,
+  findSuppression,
+  unusedSuppressions,
+  type ViolationLocator,
+} from "./suppressions";
+
+export const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+/** Source of diagnostics from the REST Lens API */
+export const DIAGNOSTIC_SOURCE = "REST Lens";
+
+/** Source of diagnostics from the local (offline) rule engine */
+export const OFFLINE_DIAGNOSTIC_SOURCE = "REST Lens (offline)";
 
 // =============================================================================
 // OpenAPI Detection
@@ -45,20 +65,75 @@ export { parseOpenAPISpec };
 // Violation to Diagnostic Conversion
 // =============================================================================
 
+/**
+ * Violation behind a diagnostic, carried in its `data` field so code
+ * actions and hovers find it wherever the diagnostic has moved since.
+ */
+export interface ViolationData {
+  ruleId: number;
+  ruleSlug: string;
+  severity?: string;
+  violationKey: ViolationKey;
+  message: string;
+}
+
+/**
+ * Violation data of a REST Lens diagnostic, or null for other diagnostics.
+ */
+export function violationDataOf(diagnostic: Diagnostic): ViolationData | null {
+  const data = diagnostic.data as Partial<ViolationData> | undefined;
+  if (!data || typeof data.ruleSlug !== "string" || !data.violationKey) return null;
+  return data as ViolationData;
+}
+
+export interface ConversionOptions {
+  /** Bundled spec, when the document includes external $ref files */
+  bundle?: BundledSpec;
+  /** Diagnostic source label (defaults to DIAGNOSTIC_SOURCE) */
+  source?: string;
+  /** Warn about x-restlens-ignore entries that match no violation */
+  reportUnusedSuppressions?: boolean;
+  /** Signatures of known violations from the checked-in baseline file */
+  baseline?: Set<string>;
+  /** Leave baselined violations out (default), or show them as hints */
+  baselineDisplay?: "hide" | "hint";
+}
+
+/** Diagnostic code of unused x-restlens-ignore entries */
+export const UNUSED_SUPPRESSION_CODE = "unused-suppression";
+
 /**
  * Convert REST Lens violations to LSP diagnostics.
+ *
+ * When the spec was bundled from several files, violations on nodes that
+ * live in an external $ref file are left out here; see
+ * externalViolationsToDiagnostics(). Violations silenced by an
+ * x-restlens-ignore annotation are left out as well.
  */
 export function violationsToDiagnostics(
   violations: ViolationKV[],
   document: TextDocument,
-  includeInfo: boolean
+  includeInfo: boolean,
+  options: ConversionOptions = {}
 ): Diagnostic[] {
+  const { bundle, source = DIAGNOSTIC_SOURCE } = options;
   const diagnostics: Diagnostic[] = [];
   const content = document.getText();
+  let ast: SpecAst | null = null;
+
+  const spec: unknown = bundle ? bundle.spec : (ast = parseSpecAst(content)).document.toJS();
+  const suppressions = collectSuppressions(spec);
+  const locate: ViolationLocator = (key) => violationPointer(key, spec);
 
   for (const violation of violations) {
     const { key, value } = violation;
 
+    if (bundle && locateViolation(key, bundle)) {
+      continue;
+    }
+
+    const pointer = locate(key);
+
     // Create a diagnostic for each violation message
     for (const v of value) {
       // Skip info severity if not included
@@ -66,28 +141,287 @@ export function violationsToDiagnostics(
         continue;
       }
 
-      // Use the shared line finder
-      const pos = findViolationLine(key, content, v.message);
+      if (findSuppression(suppressions, pointer ?? [], v.rule_slug)) {
+        continue;
+      }
+
+      const baselined = isBaselined(options, key, v.rule_slug);
+      if (baselined && options.baselineDisplay !== "hint") {
+        continue;
+      }
+
+      // The node the key resolves to, highlighted in the AST
+      let range: Range | null = null;
+      if (pointer) {
+        ast ??= parseSpecAst(content);
+        range = pointerRange(ast, pointer);
+      }
+
+      if (!range) {
+        // Fall back to the shared line finder
+        const pos = findViolationLine(key, content, v.message);
 
-      // Convert to LSP Range (0-indexed lines)
-      const range: Range = {
-        start: { line: pos.line - 1, character: pos.column },
-        end: { line: pos.line - 1, character: pos.endColumn },
-      };
+        // Convert to LSP Range (0-indexed lines)
+        range = {
+          start: { line: pos.line - 1, character: pos.column },
+          end: { line: pos.line - 1, character: pos.endColumn },
+        };
+      }
 
       diagnostics.push({
         range,
-        severity: mapSeverity(v.severity),
+        severity: baselined ? DiagnosticSeverity.Hint : mapSeverity(v.severity),
         message: v.message,
-        source: "REST Lens",
+        source,
         code: v.rule_slug || v.rule_id,
+        data: violationData(key, v),
       });
     }
   }
 
+  if (options.reportUnusedSuppressions) {
+    for (const unused of unusedSuppressions(violations, suppressions, locate)) {
+      if (bundle && locateInBundle(bundle, unused.pointer)) continue;
+      ast ??= parseSpecAst(content);
+      const range = pointerRange(ast, unused.pointer);
+      if (range) diagnostics.push(unusedSuppressionDiagnostic(range, unused.slug, source));
+    }
+  }
+
   return diagnostics;
 }
 
+/**
+ * Convert violations on nodes inlined from external $ref files to
+ * diagnostics, grouped by the URI of the file that owns each node.
+ */
+export function externalViolationsToDiagnostics(
+  violations: ViolationKV[],
+  bundle: BundledSpec,
+  includeInfo: boolean,
+  options: Omit<ConversionOptions, "bundle"> = {}
+): Map<string, Diagnostic[]> {
+  const { source = DIAGNOSTIC_SOURCE } = options;
+  const byUri = new Map<string, Diagnostic[]>();
+  const asts = new Map<string, SpecAst>();
+
+  for (const uri of bundle.files.keys()) {
+    byUri.set(uri, []);
+  }
+
+  const suppressions = collectSuppressions(bundle.spec);
+  const locate: ViolationLocator = (key) => violationPointer(key, bundle.spec);
+
+  const astFor = (uri: string): SpecAst | null => {
+    const text = bundle.files.get(uri);
+    if (text === undefined) return null;
+    let ast = asts.get(uri);
+    if (!ast) {
+      ast = parseSpecAst(text);
+      asts.set(uri, ast);
+    }
+    return ast;
+  };
+
+  for (const violation of violations) {
+    const location = locateViolation(violation.key, bundle);
+    if (!location) continue;
+
+    const ast = astFor(location.uri);
+    if (!ast) continue;
+
+    const range: Range = pointerRange(ast, location.pointer) ?? {
+      start: { line: 0, character: 0 },
+      end: { line: 0, character: 1 },
+    };
+    const pointer = suppressions.length > 0 ? locate(violation.key) ?? [] : [];
+
+    for (const v of violation.value) {
+      if (!includeInfo && v.severity === "info") {
+        continue;
+      }
+
+      if (findSuppression(suppressions, pointer ?? [], v.rule_slug)) {
+        continue;
+      }
+
+      const baselined = isBaselined(options, violation.key, v.rule_slug);
+      if (baselined && options.baselineDisplay !== "hint") {
+        continue;
+      }
+
+      byUri.get(location.uri)!.push({
+        range,
+        severity: baselined ? DiagnosticSeverity.Hint : mapSeverity(v.severity),
+        message: v.message,
+        source,
+        code: v.rule_slug || v.rule_id,
+        data: violationData(violation.key, v),
+      });
+    }
+  }
+
+  if (options.reportUnusedSuppressions) {
+    // A file inlined several times has one copy of each entry per inclusion;
+    // an entry is unused only when none of its copies matched
+    const locationId = (location: { uri: string; pointer: string[] }) =>
+      `${location.uri}#${location.pointer.join("/")}`;
+    const copies = new Map<string, number>();
+    for (const suppression of suppressions) {
+      for (const rulePointer of suppression.rulePointers) {
+        const location = locateInBundle(bundle, rulePointer);
+        if (location) copies.set(locationId(location), (copies.get(locationId(location)) ?? 0) + 1);
+      }
+    }
+
+    const unusedCopies = new Map<string, number>();
+    for (const unused of unusedSuppressions(violations, suppressions, locate)) {
+      const location = locateInBundle(bundle, unused.pointer);
+      if (!location) continue;
+      const id = locationId(location);
+      const count = (unusedCopies.get(id) ?? 0) + 1;
+      unusedCopies.set(id, count);
+      if (count !== copies.get(id)) continue;
+
+      const ast = astFor(location.uri);
+      const range = ast ? pointerRange(ast, location.pointer) : null;
+      if (range) byUri.get(location.uri)?.push(unusedSuppressionDiagnostic(range, unused.slug, source));
+    }
+  }
+
+  return byUri;
+}
+
+function violationData(key: ViolationKey, v: ViolationKV["value"][number]): ViolationData {
+  return {
+    ruleId: v.rule_id || 0,
+    ruleSlug: v.rule_slug || `rule-${v.rule_id}`,
+    severity: v.severity,
+    violationKey: {
+      path: key.path,
+      operation_id: key.operation_id,
+      http_code: key.http_code,
+      schema_path: key.schema_path,
+    },
+    message: v.message,
+  };
+}
+
+function isBaselined(options: ConversionOptions, key: ViolationKey, ruleSlug: string | undefined): boolean {
+  return !!options.baseline && options.baseline.has(violationSignature(key, ruleSlug));
+}
+
+function unusedSuppressionDiagnostic(range: Range, ruleSlug: string, source: string): Diagnostic {
+  return {
+    range,
+    severity: DiagnosticSeverity.Warning,
+    message: `x-restlens-ignore: "${ruleSlug}" does not match any violation`,
+    source,
+    code: UNUSED_SUPPRESSION_CODE,
+    tags: [DiagnosticTag.Unnecessary],
+  };
+}
+
+/**
+ * Find the external file and pointer that own a violation, if any.
+ */
+function locateViolation(key: ViolationKey, bundle: BundledSpec): { uri: string; pointer: string[] } | null {
+  if (bundle.sources.length === 0) return null;
+  const pointer = violationPointer(key, bundle.spec);
+  return pointer ? locateInBundle(bundle, pointer) : null;
+}
+
+// =============================================================================
+// Violation Key Resolution
+// =============================================================================
+
+/**
+ * Resolve a ViolationKey to the JSON pointer of the node it refers to.
+ * Returns null unless every part of the key is found, so callers fall
+ * back to the line finder rather than marking an ancestor of the node.
+ */
+export function violationPointer(key: ViolationKey, spec: unknown): string[] | null {
+  let pointer: string[] = [];
+
+  // Path item
+  if (key.path) {
+    if (getAtPointer(spec, ["paths", key.path]) === undefined) return null;
+    pointer = ["paths", key.path];
+  }
+
+  // Operation, searched under the path when known
+  if (key.operation_id) {
+    const operation = findOperation(spec, key.operation_id, key.path);
+    if (!operation) return null;
+    pointer = operation;
+  }
+
+  // Response under the operation
+  if (key.http_code) {
+    if (pointer.length !== 3) return null;
+    const response = [...pointer, "responses", String(key.http_code)];
+    if (getAtPointer(spec, response) === undefined) return null;
+    pointer = response;
+  }
+
+  // Schema, either as a JSON pointer or a dotted path below the current node
+  if (key.schema_path) {
+    if (key.schema_path.startsWith("#")) {
+      pointer = parseJsonPointer(key.schema_path);
+      if (getAtPointer(spec, pointer) === undefined) return null;
+    } else {
+      const base = pointer.length > 0 ? pointer : ["components", "schemas"];
+      const schema = resolveDottedPath(spec, base, key.schema_path);
+      if (!schema) return null;
+      pointer = schema;
+    }
+  }
+
+  return pointer.length > 0 ? pointer : null;
+}
+
+/**
+ * Resolve a dotted path below a node. Keys may contain dots themselves
+ * (media types like application/vnd.api+json, "x.y" schema names), so at
+ * each level the longest run of segments naming an existing key wins.
+ */
+function resolveDottedPath(spec: unknown, base: string[], dotted: string): string[] | null {
+  const segments = dotted.split(".");
+  const pointer = [...base];
+  let node = getAtPointer(spec, base);
+
+  for (let i = 0; i < segments.length; ) {
+    if (!node || typeof node !== "object") return null;
+    let length = segments.length - i;
+    while (length > 0 && !Object.prototype.hasOwnProperty.call(node, segments.slice(i, i + length).join("."))) {
+      length--;
+    }
+    if (length === 0) return null;
+
+    const segment = segments.slice(i, i + length).join(".");
+    pointer.push(segment);
+    node = (node as Record<string, unknown>)[segment];
+    i += length;
+  }
+  return pointer;
+}
+
+function findOperation(spec: unknown, operationId: string, path?: string): string[] | null {
+  const paths = getAtPointer(spec, ["paths"]);
+  if (!paths || typeof paths !== "object") return null;
+
+  const candidates = path && path in paths ? [path] : Object.keys(paths);
+  for (const candidate of candidates) {
+    for (const method of HTTP_METHODS) {
+      const operation = getAtPointer(paths, [candidate, method]) as { operationId?: unknown } | undefined;
+      if (operation && operation.operationId === operationId) {
+        return ["paths", candidate, method];
+      }
+    }
+  }
+  return null;
+}
+
 /**
  * Map REST Lens severity to LSP DiagnosticSeverity.
  */
@@ -0,0 +1,385 @@
+/**
+ * Auto-fixes
+ *
+ * Quick fixes for rules with a mechanical solution. Each fix is a set of
+ * minimal text edits computed on the position-aware AST, so the rest of the
+ * document (formatting, comments, key order) is left as it was.
+ *
+ * Fixers are keyed by the local engine's rule slugs. Each one checks the
+ * node itself and returns null when it has nothing to fix, so an API rule
+ * that shares a slug but means something else is left alone.
+ */
+
+import { Position, TextEdit } from "vscode-languageserver/node";
+import { isMap, isScalar, isSeq, stringify, type Node, type YAMLMap } from "yaml";
+import {
+  findAstNode,
+  getAtPointer,
+  indentUnit,
+  insertEntryEdit,
+  isJsonText,
+  nearestMap,
+  nodeRange,
+  parseSpecAst,
+  pointerAt,
+  replaceScalarEdit,
+  toJsonPointer,
+  type SpecAst,
+} from "./ast";
+import { HTTP_METHODS } from "./diagnostics";
+import { isCollectionSegment, isKebabCaseSegment, isPathParameter, isPlural } from "./local-rules";
+
+export interface SpecFix {
+  title: string;
+  edits: TextEdit[];
+  /** Key of an inserted entry whose empty value the user fills in */
+  fillIn?: string;
+  /** Path item moved by the fix; $refs to it in other files need updating */
+  moved?: { from: string[]; to: string[] };
+}
+
+interface FixContext {
+  text: string;
+  ast: SpecAst;
+  /** Pointer of the node the diagnostic is on */
+  pointer: string[];
+  /** Plain JS value of the document */
+  spec: unknown;
+}
+
+// =============================================================================
+// Fixers
+// =============================================================================
+
+/**
+ * A fixer in two steps: finding what it would fix is cheap, so quick fixes
+ * can be listed with only that check, and the edits built on resolve.
+ */
+interface Fixer<T = unknown> {
+  /** Title listed before the fix is computed */
+  title: string;
+  /** Key of the entry the fix inserts empty, see SpecFix.fillIn */
+  fillIn?: string;
+  /** Renaming a path changes the API's URLs: offered one at a time, never in bulk */
+  renamesPath?: boolean;
+  /** What the fix applies to at the diagnostic, or null when there is nothing to fix */
+  target(context: FixContext): T | null;
+  fix(context: FixContext, target: T): SpecFix | null;
+}
+
+// Infers each fixer's target type
+function fixer<T>(entry: Fixer<T>): Fixer {
+  return entry as Fixer;
+}
+
+const FIXERS: Record<string, Fixer> = {
+  "operation-id-required": fixer({
+    title: "Add an operationId",
+    target(context) {
+      const operation = operationPointer(context.pointer);
+      const node = operation ? findAstNode(context.ast, operation)?.value : null;
+      return operation && isMap(node) && !node.has("operationId") ? { operation, node } : null;
+    },
+    fix(context, { operation, node }) {
+      const operationId = uniqueOperationId(context.spec, operation[2], operation[1]);
+      const edit = insertEntryEdit(context.ast, context.text, node, entryText(context, node, "operationId", operationId));
+      return edit ? { title: `Add operationId "${operationId}"`, edits: [edit] } : null;
+    },
+  }),
+
+  "kebab-case-paths": fixer({
+    title: "Rename path to kebab-case",
+    renamesPath: true,
+    target(context) {
+      return renamedPath(context, (segments) =>
+        segments.map((segment) => (isPathParameter(segment) || isKebabCaseSegment(segment) ? segment : toKebabCase(segment)))
+      );
+    },
+    fix(context, renamed) {
+      return renamePath(context, renamed, `Rename path to ${renamed}`);
+    },
+  }),
+
+  "plural-collection-names": fixer({
+    title: "Pluralize collection names in the path",
+    renamesPath: true,
+    target(context) {
+      return renamedPath(context, (segments) =>
+        segments.map((segment, i) => (isCollectionSegment(segments, i) && !isPlural(segment) ? pluralize(segment) : segment))
+      );
+    },
+    fix(context, renamed) {
+      return renamePath(context, renamed, `Pluralize path to ${renamed}`);
+    },
+  }),
+
+  "require-4xx-response": fixer({
+    title: "Add a 400 response",
+    target(context) {
+      const operation = operationPointer(context.pointer);
+      const node = operation ? findAstNode(context.ast, operation)?.value : null;
+      if (!isMap(node)) return null;
+      const responses = node.get("responses", true) as Node | undefined;
+      const codes = isMap(responses) ? responses.items.map((item) => String(isScalar(item.key) ? item.key.value : "")) : [];
+      return codes.some((code) => /^4(\d\d|XX)$/i.test(code)) ? null : { node, responses };
+    },
+    fix(context, { node, responses }) {
+      const badRequest = { description: "Bad request" };
+      const edit = isMap(responses)
+        ? insertEntryEdit(context.ast, context.text, responses, entryText(context, responses, "400", badRequest))
+        : insertEntryEdit(context.ast, context.text, node, entryText(context, node, "responses", { "400": badRequest }));
+      return edit ? { title: "Add a 400 response", edits: [edit] } : null;
+    },
+  }),
+
+  "description-required": fixer({
+    title: "Add a description",
+    fillIn: "description",
+    target(context) {
+      const target = nearestMap(context.ast, context.pointer);
+      return target && !target.map.has("description") ? target.map : null;
+    },
+    fix(context, map) {
+      const edit = insertEntryEdit(context.ast, context.text, map, entryText(context, map, "description", ""));
+      return edit ? { title: "Add a description", edits: [edit], fillIn: "description" } : null;
+    },
+  }),
+};
+
+/** A quick fix that applies, before its edits are computed */
+export interface SpecFixInfo {
+  title: string;
+  /** See SpecFix.fillIn */
+  fillIn?: string;
+}
+
+/**
+ * The quick fixes that apply to diagnostics of a document, parallel to
+ * `diagnostics` (null where there is none). Only checks what each fixer
+ * would fix; getSpecFix() computes the edits.
+ */
+export function applicableSpecFixes(text: string, diagnostics: { ruleSlug: string; position: Position }[]): (SpecFixInfo | null)[] {
+  const none = diagnostics.map(() => null);
+  if (!diagnostics.some(({ ruleSlug }) => FIXERS[ruleSlug])) return none;
+
+  const ast = parseSpecAst(text);
+  if (ast.document.errors.length > 0) return none;
+  const spec = ast.document.toJS();
+
+  return diagnostics.map(({ ruleSlug, position }) => {
+    const entry = FIXERS[ruleSlug];
+    if (!entry) return null;
+    const context = { text, ast, pointer: pointerAt(ast, nodeStart(text, position)), spec };
+    return entry.target(context) === null ? null : { title: entry.title, fillIn: entry.fillIn };
+  });
+}
+
+/**
+ * The quick fix for a rule at a position, if the rule has one.
+ */
+export function getSpecFix(ruleSlug: string, text: string, position: Position): SpecFix | null {
+  const entry = FIXERS[ruleSlug];
+  if (!entry) return null;
+
+  const ast = parseSpecAst(text);
+  if (ast.document.errors.length > 0) return null;
+
+  return runFixer(entry, { text, ast, pointer: pointerAt(ast, nodeStart(text, position)), spec: ast.document.toJS() });
+}
+
+/**
+ * The quick fixes for many diagnostics of a document, parsing it once.
+ * Every fix is computed against the original text. Path renames are left
+ * out.
+ */
+export function getSpecFixes(text: string, diagnostics: { ruleSlug: string; position: Position }[]): SpecFix[] {
+  diagnostics = diagnostics.filter(({ ruleSlug }) => FIXERS[ruleSlug] && !FIXERS[ruleSlug].renamesPath);
+  if (diagnostics.length === 0) return [];
+
+  const ast = parseSpecAst(text);
+  if (ast.document.errors.length > 0) return [];
+  const spec = ast.document.toJS();
+
+  const fixes: SpecFix[] = [];
+  for (const { ruleSlug, position } of diagnostics) {
+    const fix = runFixer(FIXERS[ruleSlug], { text, ast, pointer: pointerAt(ast, nodeStart(text, position)), spec });
+    if (fix) fixes.push(fix);
+  }
+  return fixes;
+}
+
+function runFixer(entry: Fixer, context: FixContext): SpecFix | null {
+  const target = entry.target(context);
+  return target === null ? null : entry.fix(context, target);
+}
+
+/**
+ * Where to type the value of `key` in the mapping at a position, once a fix
+ * inserted it empty: inside the quotes of an empty string. Null when the
+ * entry is missing or already has a value.
+ */
+export function fillInPosition(text: string, position: Position, key: string): Position | null {
+  const ast = parseSpecAst(text);
+  const map = nearestMap(ast, pointerAt(ast, nodeStart(text, position)))?.map;
+  const value = map?.get(key, true);
+  if (!isScalar(value) || value.value !== "") return null;
+  const range = nodeRange(ast, value);
+  if (!range) return null;
+  const quoted = range.end.character - range.start.character === 2;
+  return quoted ? { line: range.start.line, character: range.start.character + 1 } : range.start;
+}
+
+/**
+ * Diagnostics may start in the indentation before a key.
+ */
+function nodeStart(text: string, position: Position): Position {
+  const line = text.split("\n")[position.line] ?? "";
+  const firstChar = line.search(/\S/);
+  return firstChar > position.character ? { line: position.line, character: firstChar } : position;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function operationPointer(pointer: string[]): string[] | null {
+  if (pointer[0] !== "paths" || pointer.length < 3 || !HTTP_METHODS.includes(pointer[2])) return null;
+  return pointer.slice(0, 3);
+}
+
+/**
+ * New name of the path at the pointer, or null when the transform leaves
+ * it as it is or the new name is taken.
+ */
+function renamedPath(context: FixContext, transform: (segments: string[]) => string[]): string | null {
+  if (context.pointer[0] !== "paths" || context.pointer.length < 2) return null;
+  const path = context.pointer[1];
+  const renamed = "/" + transform(path.split("/").filter(Boolean)).join("/");
+  if (renamed === path) return null;
+  return getAtPointer(context.spec, ["paths", renamed]) === undefined ? renamed : null;
+}
+
+function renamePath(context: FixContext, renamed: string, title: string): SpecFix | null {
+  const path = context.pointer[1];
+  const key = findAstNode(context.ast, ["paths", path])?.key;
+  const edit = key ? replaceScalarEdit(context.ast, key, renamed) : null;
+  if (!edit) return null;
+
+  const from = ["paths", path];
+  const to = ["paths", renamed];
+  return {
+    title,
+    edits: [edit, ...localReferenceEdits(context.ast, from, to)],
+    moved: { from, to },
+  };
+}
+
+/**
+ * Edits retargeting the document's own references into a moved node:
+ * "#/..." $refs, and the operationRef of links.
+ */
+function localReferenceEdits(ast: SpecAst, from: string[], to: string[]): TextEdit[] {
+  const prefix = toJsonPointer(from);
+  const edits: TextEdit[] = [];
+
+  function walk(node: unknown): void {
+    if (isSeq(node)) {
+      node.items.forEach(walk);
+      return;
+    }
+    if (!isMap(node)) return;
+
+    for (const pair of node.items) {
+      const key = isScalar(pair.key) ? pair.key.value : null;
+      const value = pair.value;
+      if ((key === "$ref" || key === "operationRef") && isScalar(value) && typeof value.value === "string") {
+        const ref = value.value;
+        if (ref === prefix || ref.startsWith(`${prefix}/`)) {
+          const edit = replaceScalarEdit(ast, value as Node, toJsonPointer(to) + ref.slice(prefix.length));
+          if (edit) edits.push(edit);
+        }
+      } else {
+        walk(value);
+      }
+    }
+  }
+
+  walk(ast.document.contents);
+  return edits;
+}
+
+/**
+ * "key: value" text to insert into a mapping, in the document's format and
+ * indentation width. Inline mappings get a single-line entry.
+ */
+function entryText(context: FixContext, map: YAMLMap, key: string, value: unknown): string {
+  const json = isJsonText(context.text);
+  if (map.flow && (!json || map.items.length === 0)) {
+    return `${JSON.stringify(key)}: ${JSON.stringify(value)}`;
+  }
+  const indent = indentUnit(context.text);
+  if (json) {
+    return `${JSON.stringify(key)}: ${JSON.stringify(value, null, indent)}`;
+  }
+  return stringify({ [key]: value }, { indent }).trimEnd();
+}
+
+function uniqueOperationId(spec: unknown, method: string, path: string): string {
+  const existing = new Set<string>();
+  const paths = getAtPointer(spec, ["paths"]);
+  if (paths && typeof paths === "object") {
+    for (const pathItem of Object.values(paths)) {
+      for (const method of HTTP_METHODS) {
+        const operationId = getAtPointer(pathItem, [method, "operationId"]);
+        if (typeof operationId === "string") existing.add(operationId);
+      }
+    }
+  }
+
+  const base = generateOperationId(method, path);
+  let operationId = base;
+  for (let n = 2; existing.has(operationId); n++) {
+    operationId = `${base}${n}`;
+  }
+  return operationId;
+}
+
+/**
+ * camelCase id from the method and path, e.g. GET /users/{userId} -> getUsersByUserId.
+ */
+function generateOperationId(method: string, path: string): string {
+  const words = [method];
+  for (const segment of path.split("/").filter(Boolean)) {
+    if (isPathParameter(segment)) {
+      words.push("by", ...splitWords(segment.slice(1, -1)));
+    } else {
+      words.push(...splitWords(segment));
+    }
+  }
+  return words
+    .map((word, i) => (i === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()))
+    .join("");
+}
+
+function splitWords(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function toKebabCase(segment: string): string {
+  return splitWords(segment).join("-").toLowerCase();
+}
+
+function pluralize(segment: string): string {
+  const parts = segment.split("-");
+  const word = parts.pop() ?? "";
+  let plural = `${word}s`;
+  if (/[^aeiou]y$/i.test(word)) {
+    plural = `${word.slice(0, -1)}ies`;
+  } else if (/(s|x|z|ch|sh)$/i.test(word)) {
+    plural = `${word}es`;
+  }
+  return [...parts, plural].join("-");
+}
@@ -0,0 +1,55 @@
+/**
+ * Git
+ *
+ * Reads earlier versions of files through the local git CLI.
+ */
+
+import { execFile } from "child_process";
+import * as path from "path";
+import { URI } from "vscode-uri";
+
+const GIT_TIMEOUT_MS = 10 * 1000;
+const GIT_MAX_OUTPUT = 20 * 1024 * 1024;
+
+function git(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile("git", args, { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: GIT_MAX_OUTPUT, windowsHide: true }, (error, stdout) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+/**
+ * Commit to compare a file against: `ref` itself, or the merge-base of
+ * `ref` and HEAD. Returns null when the file is not in a git repository
+ * or the ref does not exist.
+ */
+export async function resolveRevision(fileUri: string, ref: string, mergeBase: boolean): Promise<string | null> {
+  // Refs are passed as arguments, so never let one read as an option
+  if (!ref || ref.startsWith("-")) return null;
+
+  const cwd = path.dirname(URI.parse(fileUri).fsPath);
+  const args = mergeBase ? ["merge-base", "HEAD", ref] : ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`];
+  try {
+    return (await git(args, cwd)).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Contents of a file at a revision, or null when it did not exist there.
+ */
+export async function showFileAtRevision(fileUri: string, revision: string): Promise<string | null> {
+  const filePath = URI.parse(fileUri).fsPath;
+  try {
+    // "./" makes the path relative to the working directory, not the repository root
+    return await git(["show", `${revision}:./${path.basename(filePath)}`], path.dirname(filePath));
+  } catch {
+    return null;
+  }
+}
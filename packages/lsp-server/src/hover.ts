@@ -0,0 +1,100 @@
+/**
+ * Rule Documentation Hover
+ *
+ * Fetches rule documentation from the REST Lens API (once per rule)
+ * and renders it as Markdown hover content.
+ */
+
+import { MarkupContent, MarkupKind } from "vscode-languageserver/node";
+import type { RestLensClient, RuleDocumentation } from "./api-client";
+
+export interface HoverViolation {
+  ruleId: number;
+  ruleSlug: string;
+  severity?: string;
+  message: string;
+}
+
+/**
+ * Caches rule documentation per rule id.
+ * Failed lookups are evicted so they are retried on the next hover.
+ */
+export class RuleDocsCache {
+  private docs = new Map<number, Promise<RuleDocumentation | null>>();
+
+  /**
+   * Get documentation for a rule, fetching it on first use.
+   */
+  get(client: RestLensClient, ruleId: number): Promise<RuleDocumentation | null> {
+    let pending = this.docs.get(ruleId);
+    if (!pending) {
+      pending = client.getRuleDocumentation(ruleId).catch(() => {
+        this.docs.delete(ruleId);
+        return null;
+      });
+      this.docs.set(ruleId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Clear all cached documentation.
+   */
+  clear(): void {
+    this.docs.clear();
+  }
+}
+
+/**
+ * Render the hover section for a single violation.
+ */
+export function formatRuleHover(
+  violation: HoverViolation,
+  docs: RuleDocumentation | null,
+  ruleUrl: string | null
+): string {
+  const lines: string[] = [];
+  const severity = violation.severity ? ` · ${violation.severity}` : "";
+
+  lines.push(`**REST Lens** \`${violation.ruleSlug}\`${severity}`);
+  lines.push("");
+  lines.push(violation.message);
+
+  if (docs?.name) {
+    lines.push("", `#### ${docs.name}`);
+  }
+
+  const rationale = docs?.rationale || docs?.description;
+  if (rationale) {
+    lines.push("", rationale);
+  }
+
+  if (docs?.badExample) {
+    lines.push("", "**Bad**", "", fence(docs.badExample));
+  }
+
+  if (docs?.goodExample) {
+    lines.push("", "**Good**", "", fence(docs.goodExample));
+  }
+
+  const url = docs?.url || ruleUrl;
+  if (url) {
+    lines.push("", `[Rule documentation](${url})`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Combine hover sections into Markdown hover content.
+ */
+export function toMarkup(sections: string[]): MarkupContent {
+  return {
+    kind: MarkupKind.Markdown,
+    value: sections.join("\n\n---\n\n"),
+  };
+}
+
+function fence(example: string): string {
+  return "```yaml\n" + example.trimEnd() + "\n```";
+}
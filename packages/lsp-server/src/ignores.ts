@@ -0,0 +1,64 @@
+/**
+ * Server-side Ignores
+ *
+ * Ignores created through the API are applied by the backend when it
+ * evaluates a spec. Violations of expired ignores come back with a note,
+ * added here, that the waiver lapsed.
+ */
+
+import type { ViolationKV } from "@restlens/lib";
+import type { IgnoreRecord, IgnoreScope, ViolationKey } from "./api-client";
+
+/**
+ * The part of a violation key an ignore of the given scope is created for.
+ */
+export function scopedViolationKey(key: ViolationKey, scope: IgnoreScope): ViolationKey {
+  switch (scope) {
+    case "location":
+      return key;
+    case "operation":
+      return { path: key.path, operation_id: key.operation_id };
+    case "path":
+      return { path: key.path };
+  }
+}
+
+export function isExpired(ignore: IgnoreRecord, now: number = Date.now()): boolean {
+  if (!ignore.expiresAt) return false;
+  const expiresAt = Date.parse(ignore.expiresAt);
+  return !isNaN(expiresAt) && expiresAt <= now;
+}
+
+/**
+ * Add a note to violations whose ignore has expired.
+ */
+export function applyIgnoreRecords(violations: ViolationKV[], ignores: IgnoreRecord[], now: number = Date.now()): ViolationKV[] {
+  const lapsed = ignores.filter((ignore) => isExpired(ignore, now));
+  if (lapsed.length === 0) return violations;
+
+  return violations.map((violation) => ({
+    ...violation,
+    value: violation.value.map((v) => {
+      const ignore = lapsed.find((ignore) => ignoreApplies(ignore, violation.key, v.rule_id, v.rule_slug));
+      return ignore ? { ...v, message: `${v.message} ${lapsedNote(ignore)}` } : v;
+    }),
+  }));
+}
+
+function ignoreApplies(ignore: IgnoreRecord, key: ViolationKey, ruleId: number | undefined, ruleSlug: string | undefined): boolean {
+  // Global ignores cover every rule
+  if (ignore.ruleId && ignore.ruleId !== ruleId) return false;
+  if (!ignore.ruleId && ignore.ruleSlug && ignore.ruleSlug !== ruleSlug) return false;
+
+  return sameKey(scopedViolationKey(key, ignore.scope ?? "location"), ignore.violationKey);
+}
+
+function sameKey(a: ViolationKey, b: ViolationKey): boolean {
+  const fields = ["path", "operation_id", "http_code", "schema_path"] as const;
+  return fields.every((field) => String(a[field] ?? "") === String(b[field] ?? ""));
+}
+
+function lapsedNote(ignore: IgnoreRecord): string {
+  const date = ignore.expiresAt!.slice(0, 10);
+  return ignore.reason ? `(ignore expired ${date}: ${ignore.reason})` : `(ignore expired ${date})`;
+}
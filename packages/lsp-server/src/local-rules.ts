@@ -0,0 +1,234 @@
+/**
+ * Local Rule Engine
+ *
+ * A core subset of the built-in REST Lens rules, evaluated directly against
+ * the parsed spec. Used when the API is unreachable or in offline mode.
+ * Findings use the same ViolationKV shape as the API so they flow through
+ * the normal diagnostics pipeline.
+ */
+
+import type { Severity, ViolationKV } from "@restlens/lib";
+import type { RuleDocumentation } from "./api-client";
+import { toJsonPointer } from "./ast";
+import { HTTP_METHODS } from "./diagnostics";
+
+interface LocalFinding {
+  pointer: string[];
+  path?: string;
+  operationId?: string;
+  httpCode?: string;
+  message: string;
+}
+
+interface LocalRule {
+  slug: string;
+  name: string;
+  severity: Severity;
+  rationale: string;
+  badExample: string;
+  goodExample: string;
+  check(spec: OpenAPIDocument): LocalFinding[];
+}
+
+interface OpenAPIOperation {
+  operationId?: string;
+  responses?: Record<string, unknown>;
+}
+
+interface OpenAPIDocument {
+  paths?: Record<string, Record<string, unknown> | undefined>;
+}
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+const KEBAB_CASE_SEGMENT = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const PATH_PARAMETER = /^\{[^}]+\}$/;
+
+// Words that are already plural (or uncountable) without a trailing "s"
+const IRREGULAR_PLURALS = new Set(["people", "children", "men", "women", "data", "media", "feedback", "metadata", "criteria"]);
+
+const LOCAL_RULES: LocalRule[] = [
+  {
+    slug: "operation-id-required",
+    name: "Operations must have an operationId",
+    severity: "warning",
+    rationale: "A stable operationId lets code generators, SDKs and documentation refer to the operation by name.",
+    badExample: "get:\n  summary: List users",
+    goodExample: "get:\n  operationId: listUsers\n  summary: List users",
+    check(spec) {
+      return forEachOperation(spec, (path, method, operation) =>
+        operation.operationId
+          ? []
+          : [{
+              pointer: ["paths", path, method],
+              path,
+              message: `${method.toUpperCase()} ${path} has no operationId`,
+            }]
+      );
+    },
+  },
+  {
+    slug: "kebab-case-paths",
+    name: "Path segments must be kebab-case",
+    severity: "warning",
+    rationale: "URLs are case-sensitive; lowercase words joined by hyphens are the most readable and least error-prone convention.",
+    badExample: "/userAccounts/{id}",
+    goodExample: "/user-accounts/{id}",
+    check(spec) {
+      const findings: LocalFinding[] = [];
+      for (const path of Object.keys(spec.paths ?? {})) {
+        const invalid = staticSegments(path).filter((segment) => !isKebabCaseSegment(segment));
+        if (invalid.length > 0) {
+          findings.push({
+            pointer: ["paths", path],
+            path,
+            message: `Path ${path} has segments that are not kebab-case: ${invalid.join(", ")}`,
+          });
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    slug: "require-4xx-response",
+    name: "Operations must document a 4xx response",
+    severity: "warning",
+    rationale: "Clients need to know how the API reports invalid requests; every operation should describe at least one client error.",
+    badExample: "responses:\n  '200':\n    description: OK",
+    goodExample: "responses:\n  '200':\n    description: OK\n  '400':\n    description: Bad request",
+    check(spec) {
+      return forEachOperation(spec, (path, method, operation) => {
+        const codes = Object.keys(operation.responses ?? {});
+        if (codes.some((code) => /^4(\d\d|XX)$/i.test(code))) return [];
+        return [{
+          pointer: operation.responses ? ["paths", path, method, "responses"] : ["paths", path, method],
+          path,
+          operationId: operation.operationId,
+          message: `${method.toUpperCase()} ${path} does not document any 4xx response`,
+        }];
+      });
+    },
+  },
+  {
+    slug: "plural-collection-names",
+    name: "Collection names must be plural",
+    severity: "info",
+    rationale: "A segment followed by an identifier names a collection; plural nouns make /users/{id} read as \"one of the users\".",
+    badExample: "/user/{id}",
+    goodExample: "/users/{id}",
+    check(spec) {
+      const findings: LocalFinding[] = [];
+      for (const path of Object.keys(spec.paths ?? {})) {
+        const segments = path.split("/").filter(Boolean);
+        const singular = segments.filter((segment, i) =>
+          isCollectionSegment(segments, i) && !isPlural(segment)
+        );
+        if (singular.length > 0) {
+          findings.push({
+            pointer: ["paths", path],
+            path,
+            message: `Path ${path} uses singular collection names: ${singular.join(", ")}`,
+          });
+        }
+      }
+      return findings;
+    },
+  },
+];
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Evaluate the local rules against a parsed (and bundled) spec.
+ */
+export function evaluateLocally(spec: object): ViolationKV[] {
+  const violations: ViolationKV[] = [];
+
+  for (const rule of LOCAL_RULES) {
+    for (const finding of rule.check(spec as OpenAPIDocument)) {
+      violations.push({
+        key: {
+          path: finding.path,
+          operation_id: finding.operationId,
+          http_code: finding.httpCode,
+          // Exact location, resolved by the diagnostics converter
+          schema_path: toJsonPointer(finding.pointer),
+        },
+        value: [{
+          message: finding.message,
+          rule_id: 0,
+          rule_slug: rule.slug,
+          severity: rule.severity,
+        }],
+      } as ViolationKV);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Documentation for a local rule, in the same shape as the rules API.
+ */
+export function getLocalRuleDocumentation(slug: string): RuleDocumentation | null {
+  const rule = LOCAL_RULES.find((r) => r.slug === slug);
+  if (!rule) return null;
+  return {
+    id: 0,
+    slug: rule.slug,
+    name: rule.name,
+    rationale: rule.rationale,
+    badExample: rule.badExample,
+    goodExample: rule.goodExample,
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function forEachOperation(
+  spec: OpenAPIDocument,
+  check: (path: string, method: string, operation: OpenAPIOperation) => LocalFinding[]
+): LocalFinding[] {
+  const findings: LocalFinding[] = [];
+  for (const [path, pathItem] of Object.entries(spec.paths ?? {})) {
+    if (!pathItem || typeof pathItem !== "object") continue;
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (operation && typeof operation === "object") {
+        findings.push(...check(path, method, operation as OpenAPIOperation));
+      }
+    }
+  }
+  return findings;
+}
+
+function staticSegments(path: string): string[] {
+  return path.split("/").filter((segment) => segment && !isPathParameter(segment));
+}
+
+export function isPathParameter(segment: string): boolean {
+  return PATH_PARAMETER.test(segment);
+}
+
+export function isKebabCaseSegment(segment: string): boolean {
+  return KEBAB_CASE_SEGMENT.test(segment);
+}
+
+/**
+ * A static segment followed by a path parameter names a collection.
+ */
+export function isCollectionSegment(segments: string[], index: number): boolean {
+  return !isPathParameter(segments[index]) && isPathParameter(segments[index + 1] ?? "");
+}
+
+export function isPlural(segment: string): boolean {
+  const word = segment.toLowerCase().split("-").pop() ?? "";
+  if (IRREGULAR_PLURALS.has(word)) return true;
+  return word.endsWith("s") && !word.endsWith("ss");
+}
@@ -0,0 +1,164 @@
+/**
+ * Persistent Diagnostics Cache
+ *
+ * On-disk cache of evaluation results that survives restarts, stored in the
+ * extension's global storage directory. Entries are keyed by content hash,
+ * organization, project and API URL, and record the rule-set revision they were
+ * evaluated against so callers can tell whether they are still current. File
+ * names start with a hash of the project, so one project's entries can be
+ * dropped on their own.
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import type { ViolationKV } from "@restlens/lib";
+import type { CacheScope } from "./cache";
+
+export interface PersistentCacheOptions {
+  /** Maximum total size of the cache directory in bytes */
+  maxSizeBytes: number;
+  /** Entries older than this are discarded */
+  ttlMs: number;
+}
+
+export interface PersistentEntry {
+  /** Rule-set revision the violations were computed with (null if unknown) */
+  revision: string | null;
+  violations: ViolationKV[];
+  /** When the violations were evaluated */
+  timestamp: number;
+}
+
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+export class PersistentCache {
+  private directory: string;
+  private options: PersistentCacheOptions;
+  private lastPrune = 0;
+
+  constructor(directory: string, options: PersistentCacheOptions) {
+    this.directory = directory;
+    this.options = options;
+  }
+
+  /**
+   * Get the cached entry for content, or null if missing or expired.
+   */
+  async get(content: string, scope: CacheScope): Promise<PersistentEntry | null> {
+    const file = this.entryPath(content, scope);
+
+    let entry: PersistentEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(file, "utf8")) as PersistentEntry;
+    } catch {
+      return null;
+    }
+
+    if (Date.now() - entry.timestamp > this.options.ttlMs) {
+      await fs.rm(file, { force: true });
+      return null;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Store evaluation results for content.
+   */
+  async set(content: string, scope: CacheScope, revision: string | null, violations: ViolationKV[]): Promise<void> {
+    const entry: PersistentEntry = { revision, violations, timestamp: Date.now() };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.entryPath(content, scope), JSON.stringify(entry), "utf8");
+
+    if (Date.now() - this.lastPrune > PRUNE_INTERVAL_MS) {
+      this.lastPrune = Date.now();
+      await this.prune();
+    }
+  }
+
+  /**
+   * Delete all cached entries.
+   */
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  /**
+   * Delete the cached entries of one project.
+   */
+  async clearScope(scope: CacheScope): Promise<void> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch {
+      return;
+    }
+
+    const prefix = `${this.scopeHash(scope)}-`;
+    for (const name of names) {
+      if (name.startsWith(prefix)) {
+        await fs.rm(path.join(this.directory, name), { force: true });
+      }
+    }
+  }
+
+  /**
+   * Remove expired entries, then the oldest ones until under the size cap.
+   */
+  private async prune(): Promise<void> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch {
+      return;
+    }
+
+    const files: { file: string; size: number; mtime: number }[] = [];
+    for (const name of names) {
+      const file = path.join(this.directory, name);
+      try {
+        const stat = await fs.stat(file);
+        files.push({ file, size: stat.size, mtime: stat.mtimeMs });
+      } catch {
+        // Removed concurrently
+      }
+    }
+
+    const now = Date.now();
+    let total = 0;
+    const live: typeof files = [];
+    for (const entry of files) {
+      if (now - entry.mtime > this.options.ttlMs) {
+        await fs.rm(entry.file, { force: true });
+      } else {
+        live.push(entry);
+        total += entry.size;
+      }
+    }
+
+    live.sort((a, b) => a.mtime - b.mtime);
+    for (const entry of live) {
+      if (total <= this.options.maxSizeBytes) break;
+      await fs.rm(entry.file, { force: true });
+      total -= entry.size;
+    }
+  }
+
+  private entryPath(content: string, scope: CacheScope): string {
+    const hash = createHash("sha256").update(content).digest("hex");
+    return path.join(this.directory, `${this.scopeHash(scope)}-${hash}.json`);
+  }
+
+  private scopeHash(scope: CacheScope): string {
+    return createHash("sha256")
+      .update(scope.apiUrl)
+      .update("\0")
+      .update(scope.organization)
+      .update("\0")
+      .update(scope.project)
+      .digest("hex")
+      .slice(0, 16);
+  }
+}
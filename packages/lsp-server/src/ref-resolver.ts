@@ -0,0 +1,176 @@
+/**
+ * External $ref Resolver
+ *
+ * Bundles a root OpenAPI document with the files its relative $refs point to,
+ * and remembers where each inlined node came from so violations can be
+ * mapped back to the file that owns them.
+ */
+
+import { parse } from "yaml";
+import { URI, Utils } from "vscode-uri";
+import { getAtPointer, parseJsonPointer } from "./ast";
+
+/**
+ * An inlined $ref target: the pointer in the bundled spec where it was
+ * inlined, and the file and pointer it was read from.
+ */
+export interface RefSource {
+  pointer: string[];
+  uri: string;
+  target: string[];
+}
+
+export interface BundledSpec {
+  spec: object;
+  sources: RefSource[];
+  /** Text of every external file that was inlined, keyed by URI */
+  files: Map<string, string>;
+}
+
+/** Reads a file by URI, returning null when it cannot be read */
+export type FileReader = (uri: string) => Promise<string | null>;
+
+/** The file and pointer a $ref points to */
+export interface RefTarget {
+  uri: string;
+  pointer: string[];
+}
+
+// Refs with a URL scheme (http:, urn:, ...) are remote
+const REMOTE_REF = /^[a-z][a-z0-9+.-]*:/i;
+
+/**
+ * Inline relative external $refs of a root spec.
+ *
+ * Local refs in the root document are left untouched. Refs that cannot be
+ * resolved (missing file, bad pointer, remote URL, cycles) are kept as-is.
+ */
+export async function bundleSpec(rootUri: string, rootSpec: object, readFile: FileReader): Promise<BundledSpec> {
+  const sources: RefSource[] = [];
+  const files = new Map<string, string>();
+  const parsed = new Map<string, unknown>();
+
+  async function load(uri: string): Promise<unknown> {
+    if (!parsed.has(uri)) {
+      const text = await readFile(uri);
+      let value: unknown = undefined;
+      if (text !== null) {
+        try {
+          value = parse(text);
+          files.set(uri, text);
+        } catch {
+          value = undefined;
+        }
+      }
+      parsed.set(uri, value);
+    }
+    return parsed.get(uri);
+  }
+
+  async function resolve(node: unknown, baseUri: string, pointer: string[], stack: string[]): Promise<unknown> {
+    if (Array.isArray(node)) {
+      const items: unknown[] = [];
+      for (let i = 0; i < node.length; i++) {
+        items.push(await resolve(node[i], baseUri, [...pointer, String(i)], stack));
+      }
+      return items;
+    }
+
+    if (node === null || typeof node !== "object") {
+      return node;
+    }
+
+    const record = node as Record<string, unknown>;
+    const ref = record.$ref;
+
+    if (typeof ref === "string" && !(ref.startsWith("#") && baseUri === rootUri)) {
+      const [filePart, fragment = ""] = ref.split("#", 2);
+      if (REMOTE_REF.test(filePart)) {
+        // Remote refs are not fetched
+        return node;
+      }
+
+      const targetUri = filePart ? resolveRelative(baseUri, filePart) : baseUri;
+      if (targetUri === rootUri) {
+        // Back-reference into the root document becomes a local ref
+        return { ...record, $ref: `#${fragment}` };
+      }
+
+      const id = `${targetUri}#${fragment}`;
+      if (stack.includes(id)) {
+        return node;
+      }
+
+      const targetPointer = parseJsonPointer(fragment);
+      const target = getAtPointer(await load(targetUri), targetPointer);
+      if (target === undefined) {
+        return node;
+      }
+
+      sources.push({ pointer, uri: targetUri, target: targetPointer });
+      const resolved = await resolve(target, targetUri, pointer, [...stack, id]);
+
+      // Keep sibling keys next to $ref (e.g. description overrides)
+      const { $ref: _ref, ...siblings } = record;
+      if (resolved && typeof resolved === "object" && !Array.isArray(resolved) && Object.keys(siblings).length > 0) {
+        return { ...(resolved as object), ...siblings };
+      }
+      return resolved;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      result[key] = await resolve(value, baseUri, [...pointer, key], stack);
+    }
+    return result;
+  }
+
+  const spec = await resolve(rootSpec, rootUri, [], []) as object;
+  return { spec, sources, files };
+}
+
+/**
+ * Map a pointer in the bundled spec to the file and pointer that own it.
+ * Returns null when the node lives in the root document.
+ */
+export function locateInBundle(bundle: BundledSpec, pointer: string[]): { uri: string; pointer: string[] } | null {
+  let best: RefSource | null = null;
+
+  for (const source of bundle.sources) {
+    if (source.pointer.length > pointer.length) continue;
+    // Later sources win ties: they are the end of a $ref chain
+    if (best && source.pointer.length < best.pointer.length) continue;
+    if (source.pointer.every((segment, i) => pointer[i] === segment)) {
+      best = source;
+    }
+  }
+
+  if (!best) return null;
+  return {
+    uri: best.uri,
+    pointer: [...best.target, ...pointer.slice(best.pointer.length)],
+  };
+}
+
+/**
+ * Resolve a $ref against the file it appears in.
+ * Returns null for remote refs.
+ */
+export function resolveRef(baseUri: string, ref: string): RefTarget | null {
+  const [filePart, fragment = ""] = ref.split("#", 2);
+  if (REMOTE_REF.test(filePart)) return null;
+  return {
+    uri: filePart ? resolveRelative(baseUri, filePart) : baseUri,
+    pointer: parseJsonPointer(fragment),
+  };
+}
+
+function resolveRelative(baseUri: string, relativePath: string): string {
+  let decoded = relativePath;
+  try {
+    decoded = decodeURIComponent(relativePath);
+  } catch {
+    // Use the path as written
+  }
+  return Utils.resolvePath(Utils.dirname(URI.parse(baseUri)), decoded).toString();
+}
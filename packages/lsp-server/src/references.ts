@@ -0,0 +1,125 @@
+/**
+ * $ref Navigation
+ *
+ * Go to definition for local and relative file $refs, and references of a
+ * node across every file reachable from the workspace specs.
+ */
+
+import { Location, Position, Range } from "vscode-languageserver/node";
+import { isMap, isScalar, isSeq, type Node } from "yaml";
+import { findAstNode, nodeRange, parseSpecAst, pointerAt, pointerRange, type SpecAst } from "./ast";
+import { resolveRef, type FileReader, type RefTarget } from "./ref-resolver";
+
+export interface RefOccurrence {
+  uri: string;
+  /** Range of the $ref value */
+  range: Range;
+  /** Value node of the $ref */
+  node: Node;
+  ref: string;
+  target: RefTarget;
+}
+
+// Upper bound on files loaded while following $refs from the workspace specs
+const MAX_GRAPH_FILES = 2000;
+
+/**
+ * Every resolvable $ref in a file.
+ */
+export function collectRefs(uri: string, ast: SpecAst): RefOccurrence[] {
+  const refs: RefOccurrence[] = [];
+
+  function walk(node: unknown): void {
+    if (isSeq(node)) {
+      node.items.forEach(walk);
+      return;
+    }
+    if (!isMap(node)) return;
+
+    for (const pair of node.items) {
+      if (isScalar(pair.key) && pair.key.value === "$ref") {
+        const occurrence = toOccurrence(uri, ast, pair.value);
+        if (occurrence) refs.push(occurrence);
+      } else {
+        walk(pair.value);
+      }
+    }
+  }
+
+  walk(ast.document.contents);
+  return refs;
+}
+
+/**
+ * The $ref at a position (on its key or value), if any.
+ */
+export function refAt(uri: string, ast: SpecAst, position: Position): RefOccurrence | null {
+  const pointer = pointerAt(ast, position);
+  if (pointer[pointer.length - 1] !== "$ref") return null;
+  return toOccurrence(uri, ast, findAstNode(ast, pointer)?.value);
+}
+
+function toOccurrence(uri: string, ast: SpecAst, node: unknown): RefOccurrence | null {
+  if (!isScalar(node) || typeof node.value !== "string") return null;
+  const target = resolveRef(uri, node.value);
+  const range = nodeRange(ast, node);
+  if (!target || !range) return null;
+  return { uri, range, node, ref: node.value, target };
+}
+
+/**
+ * Location of a $ref target: the key of the target node, or the start of
+ * the file for whole-file refs.
+ */
+export function targetLocation(ast: SpecAst, target: RefTarget): Location | null {
+  if (target.pointer.length === 0) {
+    const start = { line: 0, character: 0 };
+    return { uri: target.uri, range: { start, end: start } };
+  }
+  const range = pointerRange(ast, target.pointer);
+  return range ? { uri: target.uri, range } : null;
+}
+
+export function sameTarget(a: RefTarget, b: RefTarget): boolean {
+  return a.uri === b.uri && a.pointer.length === b.pointer.length && a.pointer.every((segment, i) => b.pointer[i] === segment);
+}
+
+/**
+ * Parse the given files and every file their $refs lead to.
+ */
+export async function loadRefGraph(seeds: Map<string, SpecAst>, readFile: FileReader): Promise<Map<string, SpecAst>> {
+  const files = new Map(seeds);
+  const queue = Array.from(seeds.keys());
+  const visited = new Set(queue);
+
+  while (queue.length > 0 && files.size < MAX_GRAPH_FILES) {
+    const uri = queue.shift()!;
+    const ast = files.get(uri);
+    if (!ast) continue;
+
+    for (const ref of collectRefs(uri, ast)) {
+      if (visited.has(ref.target.uri)) continue;
+      visited.add(ref.target.uri);
+
+      const text = await readFile(ref.target.uri);
+      if (text === null) continue;
+      files.set(ref.target.uri, parseSpecAst(text));
+      queue.push(ref.target.uri);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Every $ref in the given files pointing at a target.
+ */
+export function findReferences(files: Map<string, SpecAst>, target: RefTarget): RefOccurrence[] {
+  const references: RefOccurrence[] = [];
+  for (const [uri, ast] of files) {
+    for (const ref of collectRefs(uri, ast)) {
+      if (sameTarget(ref.target, target)) references.push(ref);
+    }
+  }
+  return references;
+}
@@ -0,0 +1,247 @@
+/**
+ * Rename
+ *
+ * Renames components together with every $ref that targets them, and
+ * operationIds together with the links that reference them.
+ */
+
+import { Position, Range, TextEdit } from "vscode-languageserver/node";
+import { isMap, isScalar, isSeq, Scalar, type Node } from "yaml";
+import {
+  findAstNode,
+  getAtPointer,
+  nodeRange,
+  offsetToPosition,
+  pointerAt,
+  replaceScalarEdit,
+  toJsonPointer,
+  type SpecAst,
+} from "./ast";
+import { HTTP_METHODS } from "./diagnostics";
+import { collectRefs, refAt } from "./references";
+
+/** Component kinds that are referenced with $ref */
+const REFERENCEABLE_COMPONENTS = [
+  "schemas",
+  "parameters",
+  "responses",
+  "requestBodies",
+  "headers",
+  "examples",
+  "links",
+  "callbacks",
+  "pathItems",
+];
+
+// Allowed component keys, per the OpenAPI specification
+const COMPONENT_NAME = /^[a-zA-Z0-9.\-_]+$/;
+
+export interface RenameTarget {
+  kind: "component" | "operationId";
+  /** File the renamed node lives in */
+  uri: string;
+  /** Component pointer, or pointer of the operationId value */
+  pointer: string[];
+  name: string;
+  /** Range of the name at the rename position */
+  range: Range;
+}
+
+/** Rejected rename, with a message for the user */
+export class RenameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RenameError";
+  }
+}
+
+/**
+ * What a rename at a position would rename: a component key, a $ref to a
+ * component, or an operationId value.
+ */
+export function renameTargetAt(uri: string, ast: SpecAst, position: Position): RenameTarget | null {
+  const ref = refAt(uri, ast, position);
+  if (ref) {
+    const { pointer } = ref.target;
+    if (!isComponentPointer(pointer)) return null;
+    const range = nameRangeInRef(ast, ref.node, pointer[2]) ?? ref.range;
+    return { kind: "component", uri: ref.target.uri, pointer, name: pointer[2], range };
+  }
+
+  const pointer = pointerAt(ast, position);
+  const found = findAstNode(ast, pointer);
+
+  if (isComponentPointer(pointer) && found?.key) {
+    const range = nodeRange(ast, found.key);
+    return range ? { kind: "component", uri, pointer, name: pointer[2], range } : null;
+  }
+
+  const isOperationId =
+    pointer.length === 4 && pointer[0] === "paths" && HTTP_METHODS.includes(pointer[2]) && pointer[3] === "operationId";
+  if (isOperationId && isScalar(found?.value) && typeof found.value.value === "string") {
+    const range = nodeRange(ast, found.value);
+    return range ? { kind: "operationId", uri, pointer, name: found.value.value, range } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Range of the component name at the end of a $ref value, so the rename
+ * box holds just the name. Null when the source text doesn't spell the
+ * value out one-to-one (escapes, block scalars, percent-encoding).
+ */
+function nameRangeInRef(ast: SpecAst, node: Node, name: string): Range | null {
+  if (!isScalar(node) || typeof node.value !== "string" || !node.range) return null;
+  if (!node.value.endsWith("/" + name)) return null;
+
+  const quotes = node.type === Scalar.QUOTE_SINGLE || node.type === Scalar.QUOTE_DOUBLE ? 1 : 0;
+  if (!quotes && node.type !== Scalar.PLAIN) return null;
+  const [start, end] = node.range;
+  if (end - start !== node.value.length + 2 * quotes) return null;
+
+  const nameEnd = end - quotes;
+  return {
+    start: offsetToPosition(ast, nameEnd - name.length),
+    end: offsetToPosition(ast, nameEnd),
+  };
+}
+
+function isComponentPointer(pointer: string[]): boolean {
+  return pointer.length === 3 && pointer[0] === "components" && REFERENCEABLE_COMPONENTS.includes(pointer[1]);
+}
+
+/**
+ * Edits renaming a component and every $ref to it (or to a node inside it)
+ * in the given files. Throws RenameError for invalid or taken names.
+ */
+export function renameComponentEdits(
+  files: Map<string, SpecAst>,
+  target: RenameTarget,
+  newName: string
+): Record<string, TextEdit[]> {
+  if (!COMPONENT_NAME.test(newName)) {
+    throw new RenameError(`"${newName}" is not a valid component name (letters, digits, ".", "-" and "_")`);
+  }
+
+  const ast = files.get(target.uri);
+  const key = ast ? findAstNode(ast, target.pointer)?.key : null;
+  if (!ast || !key) {
+    throw new RenameError(`Component ${target.name} not found`);
+  }
+  const siblings = getAtPointer(ast.document.toJS(), target.pointer.slice(0, 2));
+  if (newName !== target.name && siblings && typeof siblings === "object" && newName in siblings) {
+    throw new RenameError(`A component named ${newName} already exists in ${target.pointer[1]}`);
+  }
+
+  const changes = retargetRefEdits(files, target.uri, target.pointer, [...target.pointer.slice(0, 2), newName]);
+  const keyEdit = replaceScalarEdit(ast, key, newName);
+  if (keyEdit) changes[target.uri] = [keyEdit, ...(changes[target.uri] ?? [])];
+  return changes;
+}
+
+/**
+ * Edits pointing every $ref in the given files that targets a node (or a
+ * node inside it) at the node's new pointer.
+ */
+export function retargetRefEdits(
+  files: Map<string, SpecAst>,
+  targetUri: string,
+  from: string[],
+  to: string[]
+): Record<string, TextEdit[]> {
+  const changes: Record<string, TextEdit[]> = {};
+  for (const [uri, fileAst] of files) {
+    for (const ref of collectRefs(uri, fileAst)) {
+      const pointer = ref.target.pointer;
+      if (ref.target.uri !== targetUri || !from.every((segment, i) => pointer[i] === segment)) continue;
+
+      const filePart = ref.ref.split("#", 1)[0];
+      const edit = replaceScalarEdit(fileAst, ref.node, filePart + toJsonPointer([...to, ...pointer.slice(from.length)]));
+      if (!edit) continue;
+      if (!changes[uri]) changes[uri] = [];
+      changes[uri].push(edit);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Edits renaming an operationId and the links that reference it by
+ * operationId in the given files. Throws RenameError if the id is taken.
+ */
+export function renameOperationIdEdits(
+  files: Map<string, SpecAst>,
+  target: RenameTarget,
+  newName: string
+): Record<string, TextEdit[]> {
+  if (newName.trim() === "") {
+    throw new RenameError("operationId cannot be empty");
+  }
+
+  const ast = files.get(target.uri);
+  const node = ast ? findAstNode(ast, target.pointer)?.value : null;
+  if (!ast || !node) {
+    throw new RenameError(`operationId ${target.name} not found`);
+  }
+  if (newName !== target.name && operationIds(ast.document.toJS()).has(newName)) {
+    throw new RenameError(`operationId ${newName} is already used`);
+  }
+
+  const changes: Record<string, TextEdit[]> = {};
+  const valueEdit = replaceScalarEdit(ast, node, newName);
+  if (valueEdit) changes[target.uri] = [valueEdit];
+
+  for (const [uri, fileAst] of files) {
+    for (const link of linksTo(fileAst, target.name)) {
+      const edit = replaceScalarEdit(fileAst, link, newName);
+      if (!edit) continue;
+      if (!changes[uri]) changes[uri] = [];
+      changes[uri].push(edit);
+    }
+  }
+
+  return changes;
+}
+
+function operationIds(spec: unknown): Set<string> {
+  const ids = new Set<string>();
+  const paths = getAtPointer(spec, ["paths"]);
+  if (!paths || typeof paths !== "object") return ids;
+  for (const pathItem of Object.values(paths)) {
+    for (const method of HTTP_METHODS) {
+      const operationId = getAtPointer(pathItem, [method, "operationId"]);
+      if (typeof operationId === "string") ids.add(operationId);
+    }
+  }
+  return ids;
+}
+
+/**
+ * operationId value nodes of Link Objects (entries of any `links` map)
+ * that point at an operation.
+ */
+function linksTo(ast: SpecAst, operationId: string): Node[] {
+  const found: Node[] = [];
+
+  function walk(node: unknown): void {
+    if (isSeq(node)) {
+      node.items.forEach(walk);
+      return;
+    }
+    if (!isMap(node)) return;
+
+    for (const pair of node.items) {
+      if (isScalar(pair.key) && pair.key.value === "links" && isMap(pair.value)) {
+        for (const link of pair.value.items) {
+          const value = isMap(link.value) ? link.value.get("operationId", true) : null;
+          if (isScalar(value) && value.value === operationId) found.push(value);
+        }
+      }
+      walk(pair.value);
+    }
+  }
+
+  walk(ast.document.contents);
+  return found;
+}
@@ -0,0 +1,287 @@
+/**
+ * Request Policy
+ *
+ * Shared layer for REST Lens API calls: retries with exponential backoff for
+ * network errors and 5xx responses, Retry-After handling for 429, a circuit
+ * breaker that pauses requests after repeated failures, and a global limit
+ * on concurrent requests.
+ */
+
+import { RestLensAPIError } from "@restlens/lib";
+
+export interface RequestPolicyOptions {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Backoff before the first retry; doubles on each one */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Longer Retry-After values fail the request instead of waiting */
+  maxRetryAfterMs: number;
+  /** Requests allowed in flight at once */
+  maxConcurrent: number;
+  /** Consecutive failed requests that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open */
+  cooldownMs: number;
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  /** Retry network errors and 5xx responses (429 is always retried) */
+  idempotent?: boolean;
+}
+
+/** Called when requests are paused (with the time they resume) or resumed */
+export type CircuitListener = (paused: boolean, retryAt?: number) => void;
+
+const DEFAULT_OPTIONS: RequestPolicyOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 60 * 1000,
+  maxConcurrent: 4,
+  failureThreshold: 5,
+  cooldownMs: 30 * 1000,
+};
+
+/**
+ * Thrown without making a request while the circuit is open.
+ */
+export class CircuitOpenError extends Error {
+  readonly retryAt: number;
+
+  constructor(retryAt: number) {
+    const seconds = Math.max(Math.ceil((retryAt - Date.now()) / 1000), 1);
+    super(`API unavailable after repeated failures, retrying in ${seconds}s`);
+    this.name = "CircuitOpenError";
+    this.retryAt = retryAt;
+  }
+}
+
+/** A response worth retrying, thrown inside fetch() to drive the retry loop */
+class RetryableResponse extends Error {
+  readonly response: Response;
+
+  constructor(response: Response) {
+    super(`HTTP ${response.status}`);
+    this.response = response;
+  }
+}
+
+export class RequestPolicy {
+  private options: RequestPolicyOptions;
+  private onCircuitChange: CircuitListener;
+  private active = 0;
+  private queue: (() => void)[] = [];
+  private failures = 0;
+  private openUntil = 0;
+
+  constructor(options: Partial<RequestPolicyOptions> = {}, onCircuitChange: CircuitListener = () => {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.onCircuitChange = onCircuitChange;
+  }
+
+  /**
+   * Whether requests are currently paused by the circuit breaker.
+   */
+  get paused(): boolean {
+    return Date.now() < this.openUntil;
+  }
+
+  /**
+   * Run an API call under the policy. The operation is called once per
+   * attempt and should throw RestLensAPIError for error responses. The
+   * signal stops waiting for a slot or a retry; an attempt in progress
+   * holds its slot until it settles, so abandoned requests still count
+   * against the concurrency limit.
+   */
+  async run<T>(operation: () => Promise<T>, options: RunOptions = {}): Promise<T> {
+    const { signal, idempotent = true } = options;
+
+    for (let attempt = 0; ; attempt++) {
+      if (this.paused) {
+        throw new CircuitOpenError(this.openUntil);
+      }
+
+      await this.acquire(signal);
+      let result: T;
+      try {
+        result = await operation();
+      } catch (error) {
+        this.release();
+        const delay = signal?.aborted ? null : this.retryDelay(error, attempt, idempotent);
+        if (delay === null) {
+          this.recordFailure(error);
+          throw error;
+        }
+        await sleep(delay, signal);
+        continue;
+      }
+      this.release();
+      this.failures = 0;
+      return result;
+    }
+  }
+
+  /**
+   * fetch() under the policy. Once retries run out, the last response is
+   * returned so callers can report the API's own error.
+   */
+  async fetch(url: string, init: RequestInit, options: RunOptions = {}): Promise<Response> {
+    try {
+      return await this.run(async () => {
+        const response = await fetch(url, { ...init, signal: options.signal });
+        if (response.status === 429 || response.status >= 500) {
+          throw new RetryableResponse(response);
+        }
+        return response;
+      }, options);
+    } catch (error) {
+      if (error instanceof RetryableResponse) return error.response;
+      throw error;
+    }
+  }
+
+  /**
+   * Delay before retrying a failed attempt, or null to give up.
+   */
+  private retryDelay(error: unknown, attempt: number, idempotent: boolean): number | null {
+    if (attempt >= this.options.maxRetries) return null;
+
+    const status = statusOf(error);
+    if (status === 429) {
+      const retryAfter = error instanceof RetryableResponse
+        ? parseRetryAfter(error.response.headers.get("Retry-After"))
+        : null;
+      if (retryAfter !== null && retryAfter > this.options.maxRetryAfterMs) return null;
+      return retryAfter ?? this.backoff(attempt);
+    }
+
+    if (!idempotent) return null;
+    if (status !== null) return status >= 500 ? this.backoff(attempt) : null;
+    return isNetworkError(error) ? this.backoff(attempt) : null;
+  }
+
+  private backoff(attempt: number): number {
+    const delay = Math.min(this.options.baseDelayMs * 2 ** attempt, this.options.maxDelayMs);
+    // Jitter keeps documents re-validated together from retrying in lockstep
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  /**
+   * Count failures that say the API is unavailable; client errors (4xx
+   * other than 429) don't open the circuit.
+   */
+  private recordFailure(error: unknown): void {
+    if (!isUnavailableError(error)) return;
+
+    this.failures++;
+    if (this.failures < this.options.failureThreshold || this.paused) return;
+
+    this.openUntil = Date.now() + this.options.cooldownMs;
+    this.onCircuitChange(true, this.openUntil);
+
+    const timer = setTimeout(() => {
+      // Resume, but a single further failure opens the circuit again
+      this.failures = this.options.failureThreshold - 1;
+      this.onCircuitChange(false);
+    }, this.options.cooldownMs);
+    timer.unref?.();
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (this.active < this.options.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener("abort", onAbort);
+        this.active++;
+        resolve();
+      };
+      const onAbort = () => {
+        this.queue = this.queue.filter((entry) => entry !== start);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(start);
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.queue.shift()?.();
+  }
+}
+
+/**
+ * Whether an error means the API could not be reached or is unavailable
+ * (network errors, 429, 5xx, paused requests), rather than that it
+ * rejected the request.
+ */
+export function isUnavailableError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) return true;
+  const status = statusOf(error);
+  return status === null ? isNetworkError(error) : status === 429 || status >= 500;
+}
+
+/** Error codes the client library and Node use for requests that never got a response */
+const NETWORK_ERROR_CODES = new Set([
+  "network_error",
+  "timeout",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ETIMEDOUT",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+/** HTTP status of an error response, or null when there was no response */
+function statusOf(error: unknown): number | null {
+  if (error instanceof RetryableResponse) return error.response.status;
+  if (error instanceof RestLensAPIError && !isNetworkError(error)) return error.status;
+  return null;
+}
+
+function isNetworkError(error: unknown): boolean {
+  // fetch() rejects with a TypeError when the request could not be made
+  if (error instanceof TypeError) return true;
+  if (!(error instanceof RestLensAPIError)) return false;
+  // The client library wraps those failures with a status outside the HTTP range
+  if (!(error.status >= 100)) return true;
+  if (error.code !== undefined && NETWORK_ERROR_CODES.has(error.code)) return true;
+  return (error as { cause?: unknown }).cause instanceof TypeError;
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -16,68 +16,96 @@ import {
   CodeAction,
   CodeActionKind,
   CodeActionParams,
+  CodeActionContext,
   Command,
+  Hover,
+  HoverParams,
+  Position,
+  Range,
+  CancellationToken,
+  CancellationTokenSource,
+  FileChangeType,
+  DidChangeWatchedFilesParams,
+  DocumentDiagnosticParams,
+  DocumentDiagnosticReport,
+  DocumentDiagnosticReportKind,
+  WorkspaceDiagnosticParams,
+  WorkspaceDiagnosticReport,
+  WorkspaceDocumentDiagnosticReport,
+  CodeLens,
+  CodeLensParams,
+  CodeLensRefreshRequest,
+  DocumentSymbol,
+  DocumentSymbolParams,
+  SymbolInformation,
+  WorkspaceSymbolParams,
+  DefinitionParams,
+  Location,
+  ReferenceParams,
+  PrepareRenameParams,
+  RenameParams,
+  WorkspaceEdit,
+  TextEdit,
+  ResponseError,
+  ErrorCodes,
+  CompletionItem,
+  CompletionParams,
 } from "vscode-languageserver/node";
 import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { promises as fs } from "fs";
+import * as path from "path";
 
-import { RestLensClient, ViolationKey } from "./api-client";
-import { violationsToDiagnostics, isOpenAPIDocument, parseOpenAPISpec } from "./diagnostics";
-import { DiagnosticsCache } from "./cache";
-import type { RestLensConfig, ViolationKV } from "@restlens-ide/shared";
-
-// Store violation data for code actions
-interface ViolationData {
-  ruleId: number;
-  ruleSlug: string;
-  violationKey: ViolationKey;
-  message: string;
-}
-
-// Map from diagnostic key (uri + range + message) to violation data
-const violationDataMap = new Map<string, ViolationData>();
-
-function getDiagnosticKey(uri: string, diagnostic: Diagnostic): string {
-  return `${uri}:${diagnostic.range.start.line}:${diagnostic.range.start.character}:${diagnostic.message}`;
-}
-
-function storeViolationData(uri: string, violations: ViolationKV[], diagnostics: Diagnostic[]): void {
-  // Clear old data for this URI
-  for (const key of violationDataMap.keys()) {
-    if (key.startsWith(uri)) {
-      violationDataMap.delete(key);
-    }
-  }
-
-  // Map diagnostics to their violation data
-  // Diagnostics are created in the same order as violations
-  let diagIndex = 0;
-  for (const vkv of violations) {
-    const violationKey: ViolationKey = {
-      path: vkv.key.path,
-      operation_id: vkv.key.operation_id,
-      http_code: vkv.key.http_code,
-      schema_path: vkv.key.schema_path,
-    };
-
-    for (const v of vkv.value) {
-      if (diagIndex >= diagnostics.length) break;
-
-      const diagnostic = diagnostics[diagIndex];
-      // Skip if this diagnostic doesn't match (might be filtered due to severity)
-      if (diagnostic.message !== v.message) continue;
-
-      const key = getDiagnosticKey(uri, diagnostic);
-      violationDataMap.set(key, {
-        ruleId: v.rule_id || 0,
-        ruleSlug: v.rule_slug || `rule-${v.rule_id}`,
-        violationKey,
-        message: v.message,
-      });
-
-      diagIndex++;
-    }
-  }
-}
+import { RestLensClient, ViolationKey, type IgnoreOptions, type IgnoreRecord, type IgnoreScope } from "./api-client";
+import {
+  violationsToDiagnostics,
+  externalViolationsToDiagnostics,
+  isOpenAPIDocument,
+  parseOpenAPISpec,
+  violationPointer,
+  violationDataOf,
+  DIAGNOSTIC_SOURCE,
+  OFFLINE_DIAGNOSTIC_SOURCE,
+} from "./diagnostics";
+import { CacheScope, DiagnosticsCache } from "./cache";
+import { bundleSpec, type BundledSpec, type FileReader } from "./ref-resolver";
+import { evaluateLocally, getLocalRuleDocumentation } from "./local-rules";
+import { PersistentCache } from "./persistent-cache";
+import { applicableSpecFixes, fillInPosition, getSpecFix, getSpecFixes } from "./fixes";
+import { isUnavailableError, RequestPolicy } from "./request-policy";
+import {
+  baselineEntries,
+  entrySignature,
+  excludeBaseline,
+  parseBaselineFile,
+  serializeBaselineFile,
+  violationSignatures,
+  BASELINE_FILE,
+  type BaselineFile,
+} from "./baseline";
+import { resolveRevision, showFileAtRevision } from "./git";
+import { breakingChangesToDiagnostics, detectBreakingChanges, type BreakingChange } from "./breaking-changes";
+import { buildCodeLenses, type LensViolation } from "./code-lens";
+import { applyIgnoreRecords, scopedViolationKey } from "./ignores";
+import {
+  ALL_RULES,
+  applySuppressions,
+  collectSuppressions,
+  fileSuppressionEdit,
+  suppressionEdit,
+  suppressionEdits,
+  SUPPRESSION_KEY,
+} from "./suppressions";
+import { combineEdits, isKindRequested, relocateDiagnostics, FIX_ALL_KIND, IGNORE_ALL_OF_RULE_KIND } from "./source-actions";
+import { findOpenAPIFiles, runWithConcurrency } from "./workspace";
+import { SpecIndex } from "./spec-index";
+import { buildDocumentSymbols, searchWorkspaceSymbols } from "./symbols";
+import { findReferences, loadRefGraph, refAt, targetLocation } from "./references";
+import { RenameError, renameComponentEdits, renameOperationIdEdits, renameTargetAt, retargetRefEdits } from "./rename";
+import { COMPLETION_TRIGGER_CHARACTERS, getCompletions } from "./completions";
+import { getAtPointer, parseSpecAst, pointerAt, type SpecAst } from "./ast";
+import { RuleDocsCache, formatRuleHover, toMarkup } from "./hover";
+import type { IdeConfig, ViolationKV } from "@restlens-ide/shared";
 
 // =============================================================================
 // Server State
@@ -86,14 +114,60 @@ function storeViolationData(uri: string, violations: ViolationKV[], diagnostics:
 const connection = createConnection(ProposedFeatures.all);
 const documents = new TextDocuments(TextDocument);
 const cache = new DiagnosticsCache();
+const ruleDocs = new RuleDocsCache();
+
+// Retries, rate limits and the circuit breaker; shared by every client so
+// the limits hold across config changes
+const requestPolicy = new RequestPolicy({}, (paused, retryAt) => {
+  connection.sendNotification("restlens/apiStatus", { paused, retryAt });
+  if (!paused) {
+    // Replace the offline results shown while paused
+    documents.all().forEach((doc) => validateDocument(doc));
+  }
+});
+
+// Last diagnostics published per document (hover, pull diagnostics)
+interface PublishedReport {
+  resultId: string;
+  diagnostics: Diagnostic[];
+}
+const publishedDiagnostics = new Map<string, PublishedReport>();
 
 let apiClient: RestLensClient | null = null;
-let config: RestLensConfig = {};
+let config: IdeConfig = {};
 let accessToken: string | null = null;
 
+// On-disk cache tier (extension global storage), when enabled
+let cacheDir: string | null = null;
+let persistentCache: PersistentCache | null = null;
+
+// Rule-set revision of the configured project, fetched again once it is
+// older than RULESET_REVISION_TTL_MS so rule changes are noticed
+let rulesetRevision: { revision: Promise<string | null>; fetchedAt: number } | null = null;
+const RULESET_REVISION_TTL_MS = 5 * 60 * 1000;
+
+// Ignores of the configured project, fetched once per configuration (until
+// a fetch succeeds) and again whenever one is added or removed
+let projectIgnores: Promise<IgnoreRecord[]> | null = null;
+
 // Debounce timers per document
 const debounceTimers = new Map<string, NodeJS.Timeout>();
 
+// Workspace folders to scan for OpenAPI files
+let workspaceFolders: string[] = [];
+let hasWorkspaceFolderCapability = false;
+
+// Parsed specs of the workspace (workspace symbols, references)
+const specIndex = new SpecIndex(() => findOpenAPIFiles(workspaceFolders), readDocument);
+
+// Diagnostics delivery: pushed with sendDiagnostics, or pulled by the client
+let usePullDiagnostics = false;
+let hasDiagnosticRefreshSupport = false;
+let hasCodeLensRefreshSupport = false;
+
+// Quick fix edits are computed when the client resolves the action
+let hasCodeActionResolveSupport = false;
+
 // =============================================================================
 // Initialization
 // =============================================================================
@@ -103,6 +177,24 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
   const initOptions = params.initializationOptions || {};
   config = initOptions.config || {};
   accessToken = initOptions.accessToken || null;
+  cacheDir = initOptions.cacheDir || null;
+  persistentCache = createPersistentCache();
+
+  workspaceFolders = params.workspaceFolders
+    ? params.workspaceFolders.map((folder) => folder.uri)
+    : params.rootUri ? [params.rootUri] : [];
+  hasWorkspaceFolderCapability = !!params.capabilities.workspace?.workspaceFolders;
+
+  // Use pull diagnostics when the client supports them, unless push is
+  // requested. Results that finish after a pull only reach the client
+  // through a refresh request, so without one diagnostics are pushed.
+  hasDiagnosticRefreshSupport = !!params.capabilities.workspace?.diagnostics?.refreshSupport;
+  usePullDiagnostics = config.diagnosticMode !== "push"
+    && !!params.capabilities.textDocument?.diagnostic
+    && hasDiagnosticRefreshSupport;
+  hasCodeLensRefreshSupport = !!params.capabilities.workspace?.codeLens?.refreshSupport;
+  hasCodeActionResolveSupport =
+    !!params.capabilities.textDocument?.codeAction?.resolveSupport?.properties.includes("edit");
 
   // Can't use connection.console here - not ready yet
   console.error(`[INIT] Config received: ${JSON.stringify(config)}`);
@@ -115,22 +207,56 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
       orgSlug: config.organization || "",
       projectSlug: config.project || "",
       logger: () => {},  // Silent by default
+      policy: requestPolicy,
+      onUnauthorized: requestAccessToken,
     });
   }
 
   return {
     capabilities: {
       textDocumentSync: TextDocumentSyncKind.Incremental,
-      // We use push diagnostics (sendDiagnostics), not pull
-      // Hover for rule documentation (future)
+      // Pull diagnostics when negotiated, otherwise push (sendDiagnostics)
+      diagnosticProvider: usePullDiagnostics
+        ? {
+            identifier: "restlens",
+            interFileDependencies: true,
+            workspaceDiagnostics: true,
+          }
+        : undefined,
+      // Hover for rule documentation
       hoverProvider: true,
+      // $ref targets, status codes, media types and security schemes
+      completionProvider: {
+        triggerCharacters: COMPLETION_TRIGGER_CHARACTERS,
+      },
+      // Outline of paths, operations and components
+      documentSymbolProvider: true,
+      workspaceSymbolProvider: true,
+      // $ref navigation
+      definitionProvider: true,
+      referencesProvider: true,
+      // Components (with their $refs) and operationIds (with their links)
+      renameProvider: {
+        prepareProvider: true,
+      },
+      // Violation counts above path items and operations
+      codeLensProvider: {
+        resolveProvider: false,
+      },
       // Code actions for quick fixes (ignore rule/location)
       codeActionProvider: {
-        codeActionKinds: [CodeActionKind.QuickFix],
+        codeActionKinds: [CodeActionKind.QuickFix, FIX_ALL_KIND, IGNORE_ALL_OF_RULE_KIND],
+        resolveProvider: true,
       },
       // Execute command for applying ignores
       executeCommandProvider: {
-        commands: ["restlens.ignoreRule", "restlens.ignoreGlobal"],
+        commands: ["restlens.ignoreRule", "restlens.ignoreGlobal", "restlens.fillIn"],
+      },
+      workspace: {
+        workspaceFolders: {
+          supported: true,
+          changeNotifications: true,
+        },
       },
     },
   };
@@ -138,6 +264,19 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
 
 connection.onInitialized(() => {
   connection.console.log("REST Lens Language Server initialized");
+  connection.console.info(`Diagnostics: ${usePullDiagnostics ? "pull" : "push"}`);
+
+  if (hasWorkspaceFolderCapability) {
+    connection.workspace.onDidChangeWorkspaceFolders((event) => {
+      const removed = new Set(event.removed.map((folder) => folder.uri));
+      workspaceFolders = workspaceFolders
+        .filter((uri) => !removed.has(uri))
+        .concat(event.added.map((folder) => folder.uri));
+      specIndex.reset();
+    });
+  }
+
+  startBackgroundIndexing();
 });
 
 // =============================================================================
@@ -145,7 +284,7 @@ connection.onInitialized(() => {
 // =============================================================================
 
 connection.onNotification("restlens/updateConfig", (params: {
-  config: RestLensConfig;
+  config: IdeConfig;
   accessToken: string | null;
 }) => {
   config = params.config;
@@ -158,6 +297,8 @@ connection.onNotification("restlens/updateConfig", (params: {
       orgSlug: config.organization || "",
       projectSlug: config.project || "",
       logger: () => {},  // Silent by default
+      policy: requestPolicy,
+      onUnauthorized: requestAccessToken,
     });
     connection.console.log("REST Lens client configured");
   } else {
@@ -165,245 +306,1847 @@ connection.onNotification("restlens/updateConfig", (params: {
     connection.console.log("REST Lens client cleared (no token)");
   }
 
-  // Clear cache and re-validate all documents
-  cache.clear();
+  persistentCache = createPersistentCache();
+  rulesetRevision = null;
+  projectIgnores = null;
+  baselineCache.clear();
+
+  // Re-validate all documents. Cached results are keyed by project and API
+  // URL, so display-only changes re-render without a new evaluation.
+  ruleDocs.clear();
   documents.all().forEach((doc) => validateDocument(doc));
+  startBackgroundIndexing();
+});
+
+connection.onNotification("restlens/clearCache", async () => {
+  cache.clear();
+  baselineCache.clear();
+  revisions.clear();
+  previousVersions.clear();
+  ruleDocs.clear();
+  rulesetRevision = null;
+  await persistentCache?.clear();
+  documents.all().forEach((doc) => validateDocument(doc, { refresh: true }));
+});
+
+// In-flight token request, shared by concurrent 401s
+let tokenRequest: Promise<string | null> | null = null;
+
+/**
+ * Ask the extension for a fresh access token after a 401.
+ * Resolves to null when the extension could not refresh it.
+ */
+function requestAccessToken(): Promise<string | null> {
+  tokenRequest ??= connection
+    .sendRequest<{ accessToken: string | null }>("restlens/requestToken")
+    .then(
+      (result) => {
+        if (result.accessToken) accessToken = result.accessToken;
+        return result.accessToken;
+      },
+      () => null
+    )
+    .finally(() => {
+      tokenRequest = null;
+    });
+  return tokenRequest;
+}
+
+// Token refreshed by the extension ahead of expiry: no re-validation needed
+connection.onNotification("restlens/updateToken", (params: { accessToken: string }) => {
+  accessToken = params.accessToken;
+  apiClient?.setAccessToken(params.accessToken);
 });
 
+function createPersistentCache(): PersistentCache | null {
+  if (!cacheDir || config.persistentCache === false) {
+    return null;
+  }
+  return new PersistentCache(path.join(cacheDir, "diagnostics"), {
+    maxSizeBytes: (config.persistentCacheMaxSizeMb ?? 50) * 1024 * 1024,
+    ttlMs: (config.persistentCacheTtlHours ?? 168) * 60 * 60 * 1000,
+  });
+}
+
+/**
+ * Current rule-set revision of the project, or null if it cannot be fetched.
+ */
+function getRulesetRevision(): Promise<string | null> {
+  if (!rulesetRevision || Date.now() - rulesetRevision.fetchedAt > RULESET_REVISION_TTL_MS) {
+    const client = apiClient;
+    rulesetRevision = {
+      revision: client
+        ? client.getRulesetRevision().catch((error) => {
+          connection.console.warn(`Loading the rule-set revision failed, persisted results will be re-evaluated: ${error instanceof Error ? error.message : error}`);
+          return null;
+        })
+        : Promise.resolve(null),
+      fetchedAt: Date.now(),
+    };
+  }
+  return rulesetRevision.revision;
+}
+
+function getProjectIgnores(): Promise<IgnoreRecord[]> {
+  if (!projectIgnores) {
+    const client = apiClient;
+    const request: Promise<IgnoreRecord[]> = client
+      ? client.listIgnores().catch((error) => {
+        connection.console.error(`Loading ignores failed: ${error instanceof Error ? error.message : error}`);
+        // Not cached, so the next validation asks again
+        if (projectIgnores === request) projectIgnores = null;
+        return [];
+      })
+      : Promise.resolve([]);
+    projectIgnores = request;
+  }
+  return projectIgnores;
+}
+
 // =============================================================================
 // Document Validation
 // =============================================================================
 
-async function validateDocument(document: TextDocument): Promise<void> {
-  const uri = document.uri;
+function publishDiagnostics(uri: string, evaluated: Diagnostic[]): void {
+  const diagnostics = [...evaluated, ...(breakingDiagnostics.get(uri) ?? [])];
+  const resultId = cache.resultId(diagnostics);
+  const previous = publishedDiagnostics.get(uri);
+  publishedDiagnostics.set(uri, { resultId, diagnostics });
 
-  // Only validate OpenAPI documents
-  if (!isOpenAPIDocument(document)) {
-    connection.sendDiagnostics({ uri, diagnostics: [] });
-    return;
+  const changed = previous?.resultId !== resultId;
+  if (changed) {
+    scheduleCodeLensRefresh();
   }
 
-  // Check if we have a client configured
-  if (!apiClient) {
-    connection.sendDiagnostics({
-      uri,
-      diagnostics: [{
-        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
-        severity: DiagnosticSeverity.Information,
-        message: "Sign in to REST Lens to see API design violations",
-        source: "REST Lens",
-      }],
-    });
-    return;
+  if (!usePullDiagnostics) {
+    connection.sendDiagnostics({ uri, diagnostics });
+  } else if (changed) {
+    scheduleDiagnosticRefresh();
   }
+}
 
-  // Check if org/project is configured
-  if (!config.organization || !config.project) {
-    connection.sendDiagnostics({
-      uri,
-      diagnostics: [{
-        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
-        severity: DiagnosticSeverity.Information,
-        message: "Run 'REST Lens: Select Project' to enable evaluation",
-        source: "REST Lens",
-      }],
-    });
-    return;
+function clearDiagnostics(uri: string): void {
+  breakingDiagnostics.delete(uri);
+  const hadReport = publishedDiagnostics.delete(uri);
+  if (hadReport) {
+    scheduleCodeLensRefresh();
   }
 
-  // Check cache first
-  const content = document.getText();
-  const cached = cache.get(content);
-  if (cached) {
-    connection.sendDiagnostics({ uri, diagnostics: cached });
-    return;
+  if (!usePullDiagnostics) {
+    connection.sendDiagnostics({ uri, diagnostics: [] });
+  } else if (hadReport) {
+    scheduleDiagnosticRefresh();
+  }
+}
+
+let refreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Ask the client to re-pull diagnostics. Coalesced so a workspace run
+ * does not send one refresh per file.
+ */
+function scheduleDiagnosticRefresh(): void {
+  if (!hasDiagnosticRefreshSupport || refreshTimer) return;
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    connection.languages.diagnostics.refresh();
+  }, 100);
+}
+
+let codeLensRefreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Ask the client to re-request code lenses, whose counts follow the
+ * diagnostics. Coalesced like diagnostic refreshes.
+ */
+function scheduleCodeLensRefresh(): void {
+  if (!hasCodeLensRefreshSupport || config.codeLens === false || codeLensRefreshTimer) return;
+  codeLensRefreshTimer = setTimeout(() => {
+    codeLensRefreshTimer = null;
+    connection.sendRequest(CodeLensRefreshRequest.type).catch(() => {});
+  }, 100);
+}
+
+// In-flight validations per document (pull requests wait for them)
+const pendingValidations = new Map<string, Promise<boolean>>();
+
+// Latest evaluation per document. Starting a new one aborts the previous
+// one, and aborted evaluations never publish.
+const activeEvaluations = new Map<string, AbortController>();
+
+function validateDocument(document: TextDocument, options: ValidationOptions = {}): Promise<boolean> {
+  const uri = document.uri;
+  cancelValidation(uri);
+  const controller = new AbortController();
+  activeEvaluations.set(uri, controller);
+
+  // Managed documents are updated in place on edits; evaluate a snapshot so
+  // ranges are computed against the text that was sent
+  const snapshot = TextDocument.create(uri, document.languageId, document.version, document.getText());
+
+  const validation = runValidation(snapshot, options, controller.signal).finally(() => {
+    if (activeEvaluations.get(uri) === controller) {
+      activeEvaluations.delete(uri);
+    }
+    if (pendingValidations.get(uri) === validation) {
+      pendingValidations.delete(uri);
+    }
+  });
+  pendingValidations.set(uri, validation);
+  return validation;
+}
+
+/**
+ * Abort the evaluation in flight for a document, if any.
+ */
+function cancelValidation(uri: string): void {
+  activeEvaluations.get(uri)?.abort();
+  activeEvaluations.delete(uri);
+}
+
+interface ValidationOptions {
+  /** Evaluation of a file that is not being edited: no status bar updates */
+  background?: boolean;
+  /** Skip cached results (e.g. after ignores changed on the server) */
+  refresh?: boolean;
+}
+
+/**
+ * Evaluate a document and publish the results. Resolves to false when the
+ * evaluation failed and only an error (or offline results) was shown.
+ */
+async function runValidation(document: TextDocument, options: ValidationOptions, signal: AbortSignal): Promise<boolean> {
+  const uri = document.uri;
+
+  // Only validate OpenAPI documents (external $ref files keep the
+  // diagnostics contributed by the specs that include them)
+  if (!isOpenAPIDocument(document)) {
+    breakingDiagnostics.delete(uri);
+    publishDiagnostics(uri, collectExternalDiagnostics(uri));
+    return true;
   }
 
+  const content = document.getText();
+  let bundle: BundledSpec | null = null;
+  let baselineFile: Set<string> | null = null;
+
   try {
     // Parse the spec
     const spec = parseOpenAPISpec(content);
     if (!spec) {
       // Not a valid OpenAPI spec - silently clear diagnostics
-      connection.sendDiagnostics({ uri, diagnostics: [] });
-      return;
+      publishDiagnostics(uri, []);
+      return true;
     }
 
-    // Notify extension that evaluation started (keep existing diagnostics visible)
-    connection.sendNotification("restlens/evaluationStarted", { uri });
+    // Inline relative external $refs so the backend sees the whole spec
+    bundle = await bundleSpec(uri, spec, readDocument);
+    if (signal.aborted) return true;
 
-    // Upload and evaluate
-    const result = await apiClient.evaluateSpec(spec);
+    // Published along with the violations below
+    await updateBreakingChanges(document, bundle, signal);
+    baselineFile = await loadBaselineFile(uri);
+    if (signal.aborted) return true;
 
-    // Calculate max severity from violations
-    const violationsList = result.violations || [];
-    let hasError = false;
-    let hasWarning = false;
-    let hasInfo = false;
-    for (const vkv of violationsList) {
-      for (const v of (vkv.value || [])) {
-        const sev = (v as { severity?: string }).severity;
-        if (sev === "error") hasError = true;
-        else if (sev === "warning") hasWarning = true;
-        else if (sev === "info") hasInfo = true;
-      }
-      if (hasError) break;
+    // Offline mode: local rules only
+    if (config.mode === "offline") {
+      await publishLocalResults(document, bundle, options, signal, { baselineFile });
+      return true;
     }
-    const maxSeverity = hasError ? "error" : hasWarning ? "warning" : hasInfo ? "info" : null;
 
-    // Notify extension that evaluation completed
-    connection.sendNotification("restlens/evaluationComplete", {
-      uri,
-      violationCount: violationsList.length,
-      maxSeverity,
-    });
+    // Check if we have a client configured
+    if (!apiClient) {
+      await publishLocalResults(document, bundle, options, signal, {
+        notice: {
+          range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+          severity: DiagnosticSeverity.Information,
+          message: "Sign in to REST Lens to see API design violations",
+          source: "REST Lens",
+        },
+        baselineFile,
+      });
+      return true;
+    }
 
-    // Convert violations to diagnostics
-    const diagnostics = violationsToDiagnostics(
-      result.violations || [],
-      document,
-      config.includeInfoSeverity ?? false
+    // Check if org/project is configured
+    const scope = currentScope();
+    if (!scope) {
+      await publishLocalResults(document, bundle, options, signal, {
+        notice: {
+          range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+          severity: DiagnosticSeverity.Information,
+          message: "Run 'REST Lens: Select Project' to enable evaluation",
+          source: "REST Lens",
+        },
+        baselineFile,
+      });
+      return true;
+    }
+
+    const cacheKey = evaluationCacheKey(bundle, content);
+
+    // Findings at the baseline revision, when only new violations are shown
+    const client = apiClient;
+    const engine = ["api", scope.apiUrl, scope.organization, scope.project].join("\0");
+    const baseline = await loadBaseline(uri, engine, signal, (baselineBundle, text) =>
+      evaluateCached(client, baselineBundle, text, scope, signal)
     );
+    const ignores = await getProjectIgnores();
+    if (signal.aborted) return true;
+    const publishOptions: PublishOptions = { baseline, baselineFile, ignores };
+
+    // Check cache first
+    const cached = options.refresh ? null : cache.get(cacheKey, scope);
+    if (cached) {
+      publishViolations(document, bundle, cached, options, publishOptions);
+      return true;
+    }
 
-    // Store violation data for code actions
-    storeViolationData(uri, violationsList, diagnostics);
+    // Results persisted by a previous session are shown right away, and
+    // re-evaluated in the background only if the project's rules changed
+    // since (or their revision is unknown)
+    const revision = persistentCache ? getRulesetRevision() : Promise.resolve(null);
+    const persisted = options.refresh ? null : await persistentCache?.get(cacheKey, scope);
+    if (signal.aborted) return true;
+    if (persisted) {
+      publishViolations(document, bundle, persisted.violations, options, publishOptions);
+      const current = await revision;
+      if (signal.aborted) return true;
+      if (current !== null && current === persisted.revision) {
+        cache.set(cacheKey, scope, persisted.violations);
+        return true;
+      }
+    }
 
-    // Cache and send
-    cache.set(content, diagnostics);
-    connection.sendDiagnostics({ uri, diagnostics });
+    // Notify extension that evaluation started (keep existing diagnostics visible)
+    if (!options.background) {
+      connection.sendNotification("restlens/evaluationStarted", { uri, version: document.version });
+    }
+
+    // Upload and evaluate
+    const result = await uploadAfterPrevious(uri, signal, () => client.evaluateSpec(bundle!.spec, signal));
+    if (signal.aborted) return true;
+    const violationsList = result.violations || [];
 
+    // Convert, send and cache
+    publishViolations(document, bundle, violationsList, options, publishOptions);
+    cache.set(cacheKey, scope, violationsList);
+    const persistent = persistentCache;
+    revision.then((current) => persistent?.set(cacheKey, scope, current, violationsList)).catch((error) => {
+      connection.console.error(`Persistent cache write failed: ${error instanceof Error ? error.message : error}`);
+    });
+    return true;
   } catch (error) {
+    // Superseded by a newer evaluation, which publishes instead
+    if (signal.aborted) return true;
+
     const message = error instanceof Error ? error.message : "Unknown error";
     connection.console.error(`Validation error: ${message}`);
 
-    // Show error as diagnostic
-    connection.sendDiagnostics({
-      uri,
-      diagnostics: [{
-        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
-        severity: DiagnosticSeverity.Warning,
-        message: `REST Lens: ${message}`,
-        source: "REST Lens",
-      }],
-    });
+    // Show error as diagnostic, with local results if the spec could be read
+    // and the API is unreachable; errors it reported itself are shown as is
+    const offline = !!bundle && isUnavailableError(error);
+    const notice: Diagnostic = {
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+      severity: DiagnosticSeverity.Warning,
+      message: offline ? `REST Lens: ${message} (showing offline results)` : `REST Lens: ${message}`,
+      source: "REST Lens",
+    };
+    if (bundle && offline) {
+      await publishLocalResults(document, bundle, options, signal, { notice, baselineFile });
+    } else {
+      publishDiagnostics(uri, [notice]);
+      if (!options.background) {
+        connection.sendNotification("restlens/evaluationFailed", { uri, version: document.version, message });
+      }
+    }
+    return false;
   }
 }
 
-function scheduleValidation(document: TextDocument): void {
-  const uri = document.uri;
-  const debounceMs = config.debounceMs ?? 1000;
+// Upload in flight per document. The shared client can't cut an upload
+// off, so a newer evaluation waits for it instead of uploading alongside
+// it, and evaluations superseded in the meantime never upload at all.
+const activeUploads = new Map<string, Promise<unknown>>();
 
-  // Clear existing timer
-  const existingTimer = debounceTimers.get(uri);
-  if (existingTimer) {
-    clearTimeout(existingTimer);
+async function uploadAfterPrevious<T>(uri: string, signal: AbortSignal, upload: () => Promise<T>): Promise<T> {
+  while (activeUploads.has(uri)) {
+    await activeUploads.get(uri)!.catch(() => {});
   }
+  if (signal.aborted) throw signal.reason;
 
-  // Schedule new validation
-  const timer = setTimeout(() => {
-    debounceTimers.delete(uri);
-    validateDocument(document);
-  }, debounceMs);
+  const promise = upload();
+  activeUploads.set(uri, promise);
+  try {
+    return await promise;
+  } finally {
+    if (activeUploads.get(uri) === promise) {
+      activeUploads.delete(uri);
+    }
+  }
+}
 
-  debounceTimers.set(uri, timer);
+/**
+ * Evaluate a spec with the local rule engine and publish the results,
+ * optionally preceded by a notice explaining why the API was not used.
+ */
+async function publishLocalResults(
+  document: TextDocument,
+  bundle: BundledSpec,
+  options: ValidationOptions,
+  signal: AbortSignal,
+  publishOptions: Pick<PublishOptions, "notice" | "baselineFile"> = {}
+): Promise<void> {
+  const baseline = await loadBaseline(document.uri, "local", signal, async (baselineBundle) =>
+    evaluateLocally(baselineBundle.spec)
+  );
+  if (signal.aborted) return;
+  publishViolations(document, bundle, evaluateLocally(bundle.spec), options, { ...publishOptions, offline: true, baseline });
+}
+
+interface PublishOptions {
+  /** Violations come from the local rule engine */
+  offline?: boolean;
+  /** Extra diagnostic shown before the violations */
+  notice?: Diagnostic;
+  /** Signatures of violations at the baseline revision, hidden from the results */
+  baseline?: Set<string> | null;
+  /** Signatures from the checked-in baseline file, hidden or shown as hints */
+  baselineFile?: Set<string> | null;
+  /** Ignores of the project, for those the API does not apply itself */
+  ignores?: IgnoreRecord[];
+}
+
+/**
+ * Cache key of an evaluation: the text alone, unless external files were inlined.
+ */
+function evaluationCacheKey(bundle: BundledSpec, content: string): string {
+  return bundle.files.size > 0 ? JSON.stringify(bundle.spec) : content;
+}
+
+/**
+ * Cache scope of the configured project, or null when none is selected.
+ */
+function currentScope(): CacheScope | null {
+  if (!config.organization || !config.project) return null;
+  return {
+    organization: config.organization,
+    project: config.project,
+    apiUrl: config.apiUrl || "",
+  };
 }
 
 // =============================================================================
-// Document Events
+// Git Revisions
 // =============================================================================
 
-documents.onDidOpen((event) => {
-  console.error(`[OPEN] Document opened: ${event.document.uri}`);
-  validateDocument(event.document);
-});
+interface ResolvedRef {
+  /** A file in the directory the ref was resolved for */
+  uri: string;
+  ref: string;
+  mergeBase: boolean;
+  revision: Promise<string | null>;
+}
 
-documents.onDidChangeContent((event) => {
-  if (config.evaluateOnType) {
-    scheduleValidation(event.document);
+// Resolved revisions per directory and ref, until the repository's refs move
+const revisions = new Map<string, ResolvedRef>();
+
+/**
+ * The commit a ref resolves to for a file, resolved once per directory
+ * until gitRefsChanged().
+ */
+function revisionOf(uri: string, ref: string, mergeBase: boolean): Promise<string | null> {
+  const key = [path.dirname(URI.parse(uri).fsPath), ref, mergeBase].join("\0");
+  let resolved = revisions.get(key);
+  if (!resolved) {
+    resolved = { uri, ref, mergeBase, revision: resolveRevision(uri, ref, mergeBase) };
+    revisions.set(key, resolved);
   }
-});
+  return resolved.revision;
+}
 
-documents.onDidSave((event) => {
-  if (config.evaluateOnSave !== false) {
-    validateDocument(event.document);
+/**
+ * HEAD or a ref moved (commit, checkout, fetch): resolve the refs in use
+ * again, and re-validate the open specs whose compared revision changed.
+ * Most ref updates (fetches of other branches) leave them all alone.
+ */
+async function gitRefsChanged(): Promise<void> {
+  const previous = Array.from(revisions.values());
+  revisions.clear();
+
+  const moved = new Set<string>();
+  for (const resolved of previous) {
+    const [before, after] = await Promise.all([resolved.revision, revisionOf(resolved.uri, resolved.ref, resolved.mergeBase)]);
+    if (before !== after) moved.add(path.dirname(URI.parse(resolved.uri).fsPath));
   }
-});
+  if (moved.size === 0) return;
 
-documents.onDidClose((event) => {
-  // Clear debounce timer
-  const timer = debounceTimers.get(event.document.uri);
-  if (timer) {
-    clearTimeout(timer);
-    debounceTimers.delete(event.document.uri);
+  for (const [key, entry] of previousVersions) {
+    if (entry.revision) previousVersions.delete(key);
   }
-  // Clear diagnostics
-  connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
-});
+  for (const document of documents.all()) {
+    if (moved.has(path.dirname(URI.parse(document.uri).fsPath))) {
+      validateDocument(document);
+    }
+  }
+}
 
 // =============================================================================
-// Hover Provider (Future: Rule Documentation)
+// New Violations Only (Git Baseline)
 // =============================================================================
 
-connection.onHover((params) => {
-  // TODO: Show rule documentation when hovering over violations
-  return null;
-});
-
-// Handle diagnostic pull requests (we use push diagnostics, so return empty)
-connection.onRequest("textDocument/diagnostic", (params) => {
-  connection.console.log(`Pull diagnostic request for: ${params?.textDocument?.uri}`);
-  return { kind: "full", items: [] };
-});
+// Baseline signatures per rule engine, spec and revision. The revision pins
+// the text, so entries only go stale when the rules or ignores change.
+const baselineCache = new Map<string, Set<string>>();
 
-// =============================================================================
-// Code Actions (Quick Fixes)
-// =============================================================================
+/**
+ * Violation signatures of a spec at the configured git revision, or null
+ * when the mode is off or the file is not in a git repository. Files that
+ * did not exist at the revision have an empty baseline. `engine` names
+ * the rules `evaluate` applies, to keep their baselines apart.
+ */
+async function loadBaseline(
+  uri: string,
+  engine: string,
+  signal: AbortSignal,
+  evaluate: (bundle: BundledSpec, text: string) => Promise<ViolationKV[]>
+): Promise<Set<string> | null> {
+  if (!config.newViolationsOnly || URI.parse(uri).scheme !== "file") return null;
+
+  const revision = await revisionOf(uri, config.baselineRef || "HEAD", config.baselineMergeBase ?? false);
+  if (!revision) {
+    connection.console.warn(`New violations only: no git revision "${config.baselineRef || "HEAD"}" for ${uri}`);
+    return null;
+  }
 
-connection.onCodeAction((params: CodeActionParams): CodeAction[] => {
-  const actions: CodeAction[] = [];
-  const uri = params.textDocument.uri;
+  const cacheKey = [engine, uri, revision].join("\0");
+  const cached = baselineCache.get(cacheKey);
+  if (cached) return cached;
+
+  const text = await showFileAtRevision(uri, revision);
+  if (signal.aborted) return new Set();
+  const spec = text !== null ? parseOpenAPISpec(text) : null;
+  let signatures = new Set<string>();
+  if (text !== null && spec) {
+    // $ref targets are read at the same revision
+    const bundle = await bundleSpec(uri, spec, (fileUri) => showFileAtRevision(fileUri, revision));
+    if (signal.aborted) return new Set();
+    signatures = violationSignatures(await evaluate(bundle, text));
+  }
 
-  // Only provide actions for REST Lens diagnostics
-  for (const diagnostic of params.context.diagnostics) {
-    if (diagnostic.source !== "REST Lens") continue;
+  baselineCache.set(cacheKey, signatures);
+  return signatures;
+}
 
-    const key = getDiagnosticKey(uri, diagnostic);
-    const violationData = violationDataMap.get(key);
+/**
+ * Evaluate a spec with the API, through the same cache as the working
+ * copies (an unchanged file costs no extra evaluation).
+ */
+async function evaluateCached(
+  client: RestLensClient,
+  bundle: BundledSpec,
+  text: string,
+  scope: CacheScope,
+  signal?: AbortSignal
+): Promise<ViolationKV[]> {
+  const cacheKey = evaluationCacheKey(bundle, text);
+  const cached = cache.get(cacheKey, scope);
+  if (cached) return cached;
+
+  const result = await client.evaluateSpec(bundle.spec, signal);
+  const violations = result.violations || [];
+  cache.set(cacheKey, scope, violations);
+  return violations;
+}
 
-    if (!violationData) continue;
+/**
+ * Convert violations to diagnostics for the document and the external files
+ * it includes, publish them and notify the status bar. Severity filtering
+ * and range mapping happen here, so cached violations can be re-rendered.
+ */
+function publishViolations(
+  document: TextDocument,
+  bundle: BundledSpec,
+  violations: ViolationKV[],
+  options: ValidationOptions,
+  publishOptions: PublishOptions = {}
+): void {
+  const uri = document.uri;
+  const includeInfo = config.includeInfoSeverity ?? false;
+  const source = publishOptions.offline ? OFFLINE_DIAGNOSTIC_SOURCE : DIAGNOSTIC_SOURCE;
+  const baseline = publishOptions.baseline;
+  // The local engine only knows a few rules, so it cannot tell whether a
+  // suppression is still needed. Neither can a baseline-filtered result.
+  const reportUnusedSuppressions = !publishOptions.offline && !baseline;
+
+  // Expired ignores, which the API leaves to the IDE
+  const evaluated = publishOptions.ignores ? applyIgnoreRecords(violations, publishOptions.ignores) : violations;
+
+  // Violations silenced by x-restlens-ignore annotations don't count
+  let active = applySuppressions(
+    evaluated,
+    collectSuppressions(bundle.spec),
+    (key) => violationPointer(key, bundle.spec)
+  );
+
+  // Only violations that are new since the baseline revision are shown
+  let hiddenCount: number | undefined;
+  let shown = evaluated;
+  if (baseline) {
+    ({ violations: active, hidden: hiddenCount } = excludeBaseline(active, baseline));
+    shown = excludeBaseline(evaluated, baseline).violations;
+  }
 
-    // Action 1: Ignore this rule for this location
-    actions.push({
-      title: `Ignore "${violationData.ruleSlug}" for this location`,
-      kind: CodeActionKind.QuickFix,
-      diagnostics: [diagnostic],
-      command: {
-        title: "Ignore Rule",
-        command: "restlens.ignoreRule",
-        arguments: [violationData.ruleId, violationData.violationKey, uri],
-      },
-    });
+  // Findings recorded in the baseline file don't count either
+  const baselineFile = publishOptions.baselineFile ?? undefined;
+  const baselineDisplay = config.baselineDisplay ?? "hide";
+  if (baselineFile) {
+    active = excludeBaseline(active, baselineFile).violations;
+  }
 
-    // Action 2: Ignore all rules for this location
-    actions.push({
-      title: `Ignore all rules for this location`,
-      kind: CodeActionKind.QuickFix,
-      diagnostics: [diagnostic],
-      command: {
-        title: "Ignore All",
-        command: "restlens.ignoreGlobal",
-        arguments: [violationData.violationKey, uri],
-      },
+  // Notify extension that evaluation completed
+  if (!options.background) {
+    connection.sendNotification("restlens/evaluationComplete", {
+      uri,
+      version: document.version,
+      violationCount: active.length,
+      maxSeverity: maxSeverityOf(active),
+      offline: publishOptions.offline,
+      hiddenCount,
     });
   }
 
-  return actions;
-});
-
-// =============================================================================
-// Execute Commands (Apply Ignores)
-// =============================================================================
+  // Convert violations to diagnostics
+  const diagnostics = violationsToDiagnostics(shown, document, includeInfo, {
+    bundle,
+    source,
+    reportUnusedSuppressions,
+    baseline: baselineFile,
+    baselineDisplay,
+  });
+  const external = externalViolationsToDiagnostics(shown, bundle, includeInfo, {
+    source,
+    reportUnusedSuppressions,
+    baseline: baselineFile,
+    baselineDisplay,
+  });
+
+  const notice = publishOptions.notice;
+  publishDiagnostics(uri, notice ? [notice, ...diagnostics] : diagnostics);
+  updateExternalDiagnostics(uri, external);
+}
+
+/**
+ * Highest severity among violations, for the status bar.
+ */
+function maxSeverityOf(violations: ViolationKV[]): "error" | "warning" | "info" | null {
+  let hasError = false;
+  let hasWarning = false;
+  let hasInfo = false;
+  for (const vkv of violations) {
+    for (const v of (vkv.value || [])) {
+      const sev = (v as { severity?: string }).severity;
+      if (sev === "error") hasError = true;
+      else if (sev === "warning") hasWarning = true;
+      else if (sev === "info") hasInfo = true;
+    }
+    if (hasError) break;
+  }
+  return hasError ? "error" : hasWarning ? "warning" : hasInfo ? "info" : null;
+}
+
+// =============================================================================
+// Breaking Changes
+// =============================================================================
+
+// Breaking-change diagnostics per root spec, published with its violations
+const breakingDiagnostics = new Map<string, Diagnostic[]>();
+
+// Compare-with settings naming a file rather than a git ref
+const SPEC_FILE = /\.(ya?ml|json)$/i;
+
+interface PreviousVersion {
+  bundle: BundledSpec | null;
+  /** Git revision it was read at; null for a compared file */
+  revision: string | null;
+  /** Files read from the working tree, whose changes invalidate the entry */
+  files: Set<string>;
+}
+
+// Previous versions per spec and revision (or compared file)
+const previousVersions = new Map<string, PreviousVersion>();
+
+/**
+ * Drop previous versions read from a file that changed.
+ */
+function invalidatePreviousVersions(uri: string): void {
+  for (const [key, entry] of previousVersions) {
+    if (entry.files.has(uri)) previousVersions.delete(key);
+  }
+}
+
+/**
+ * Diff a spec against its previous version and keep the diagnostics for
+ * the next publish.
+ */
+async function updateBreakingChanges(document: TextDocument, bundle: BundledSpec, signal: AbortSignal): Promise<void> {
+  const changes = config.breakingChanges === false ? null : await findBreakingChanges(document.uri, bundle);
+  if (signal.aborted) return;
+
+  if (changes && changes.length > 0) {
+    breakingDiagnostics.set(document.uri, breakingChangesToDiagnostics(changes, parseSpecAst(document.getText()), bundle));
+  } else {
+    breakingDiagnostics.delete(document.uri);
+  }
+}
+
+/**
+ * Breaking changes of a bundled spec against its previous version, or null
+ * when there is no previous version (e.g. a file not committed yet).
+ */
+async function findBreakingChanges(uri: string, bundle: BundledSpec): Promise<BreakingChange[] | null> {
+  const previous = await loadPreviousVersion(uri);
+  return previous ? detectBreakingChanges(previous.spec, bundle.spec) : null;
+}
+
+/**
+ * The previous version of a spec, bundled: the file configured to compare
+ * with, or the spec (and its $ref targets) at a git ref. Cached until the
+ * ref moves or the compared file changes.
+ */
+async function loadPreviousVersion(uri: string): Promise<BundledSpec | null> {
+  const base = config.breakingChangesBase || "HEAD";
+  let previousUri = uri;
+  let revision: string | null = null;
+  let read: FileReader;
+
+  if (SPEC_FILE.test(base)) {
+    previousUri = resolveWorkspacePath(uri, base);
+    if (previousUri === uri) return null;
+    read = readDocument;
+  } else {
+    if (URI.parse(uri).scheme !== "file") return null;
+    const resolved = await revisionOf(uri, base, false);
+    if (!resolved) return null;
+    revision = resolved;
+    read = (fileUri) => showFileAtRevision(fileUri, resolved);
+  }
+
+  const key = [uri, revision ?? previousUri].join("\0");
+  const cached = previousVersions.get(key);
+  if (cached) return cached.bundle;
+
+  const text = await read(previousUri);
+  const spec = text !== null ? parseOpenAPISpec(text) : null;
+  const bundle = spec ? await bundleSpec(previousUri, spec, read) : null;
+  const files = revision ? new Set<string>() : new Set([previousUri, ...(bundle?.files.keys() ?? [])]);
+  previousVersions.set(key, { bundle, revision, files });
+  return bundle;
+}
+
+/**
+ * URI of a path from the settings: absolute, or relative to the workspace
+ * folder containing the document.
+ */
+function resolveWorkspacePath(documentUri: string, filePath: string): string {
+  if (path.isAbsolute(filePath)) return URI.file(filePath).toString();
+
+  const folder = workspaceFolderOf(documentUri);
+  return URI.file(path.resolve(folder ?? path.dirname(URI.parse(documentUri).fsPath), filePath)).toString();
+}
+
+/**
+ * Path of the workspace folder containing a document, if any.
+ */
+function workspaceFolderOf(documentUri: string): string | null {
+  const documentPath = URI.parse(documentUri).fsPath;
+  const folder = workspaceFolders
+    .map((folderUri) => URI.parse(folderUri).fsPath)
+    .find((folderPath) => documentPath.startsWith(folderPath + path.sep));
+  return folder ?? null;
+}
+
+/**
+ * Workspace folder of a spec, and the spec's path relative to it (with
+ * forward slashes, as recorded in the baseline file and file ignores).
+ */
+function specLocation(uri: string): { folder: string; spec: string } | null {
+  if (URI.parse(uri).scheme !== "file") return null;
+  const folder = workspaceFolderOf(uri);
+  if (!folder) return null;
+  return { folder, spec: path.relative(folder, URI.parse(uri).fsPath).split(path.sep).join("/") };
+}
+
+connection.onRequest("restlens/breakingChanges", async (params: { uri: string }) => {
+  const document = await loadDocument(params.uri);
+  const spec = document ? parseOpenAPISpec(document.getText()) : null;
+  if (!document || !spec) return null;
+
+  const bundle = await bundleSpec(params.uri, spec, readDocument);
+  const changes = await findBreakingChanges(params.uri, bundle);
+  if (!changes) return null;
+
+  return {
+    base: config.breakingChangesBase || "HEAD",
+    changes: breakingChangesToDiagnostics(changes, parseSpecAst(document.getText()), bundle).map((diagnostic) => ({
+      uri: params.uri,
+      range: diagnostic.range,
+      message: diagnostic.message,
+      severity: diagnostic.severity,
+      ruleSlug: diagnostic.code,
+    })),
+  };
+});
+
+// =============================================================================
+// External $ref Files
+// =============================================================================
+
+// Root specs that include each external $ref file
+const dependentRoots = new Map<string, Set<string>>();
+
+// Diagnostics published on each external file, per root spec
+const externalDiagnostics = new Map<string, Map<string, Diagnostic[]>>();
+
+/**
+ * Read a file, preferring the editor buffer over the file on disk.
+ */
+async function readDocument(uri: string): Promise<string | null> {
+  const open = documents.get(uri);
+  if (open) {
+    return open.getText();
+  }
+  try {
+    return await fs.readFile(URI.parse(uri).fsPath, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+function collectExternalDiagnostics(fileUri: string): Diagnostic[] {
+  const byRoot = externalDiagnostics.get(fileUri);
+  return byRoot ? Array.from(byRoot.values()).flat() : [];
+}
+
+function updateExternalDiagnostics(rootUri: string, byUri: Map<string, Diagnostic[]>): void {
+  // Drop contributions to files the root no longer includes
+  for (const [fileUri, roots] of dependentRoots) {
+    if (roots.has(rootUri) && !byUri.has(fileUri)) {
+      roots.delete(rootUri);
+      externalDiagnostics.get(fileUri)?.delete(rootUri);
+      publishDiagnostics(fileUri, collectExternalDiagnostics(fileUri));
+    }
+  }
+
+  for (const [fileUri, diagnostics] of byUri) {
+    if (!dependentRoots.has(fileUri)) dependentRoots.set(fileUri, new Set());
+    if (!externalDiagnostics.has(fileUri)) externalDiagnostics.set(fileUri, new Map());
+    dependentRoots.get(fileUri)!.add(rootUri);
+    externalDiagnostics.get(fileUri)!.set(rootUri, diagnostics);
+    publishDiagnostics(fileUri, collectExternalDiagnostics(fileUri));
+  }
+}
+
+/**
+ * Get an open document, or load a snapshot of the file from disk.
+ */
+async function loadDocument(uri: string): Promise<TextDocument | null> {
+  const open = documents.get(uri);
+  if (open) {
+    return open;
+  }
+  const text = await readDocument(uri);
+  if (text === null) {
+    return null;
+  }
+  return TextDocument.create(uri, uri.toLowerCase().endsWith(".json") ? "json" : "yaml", 0, text);
+}
+
+/**
+ * Re-evaluate the root specs that include an external $ref file.
+ */
+async function validateDependentRoots(fileUri: string): Promise<void> {
+  const roots = dependentRoots.get(fileUri);
+  if (!roots) return;
+
+  for (const rootUri of roots) {
+    const root = await loadDocument(rootUri);
+    if (root) {
+      validateDocument(root, { background: !documents.get(rootUri) });
+    }
+  }
+}
+
+// =============================================================================
+// Workspace Evaluation
+// =============================================================================
+
+const WORKSPACE_CONCURRENCY = 4;
+
+// Specs found by the last workspace scan (their diagnostics outlive the editor tab)
+const workspaceSpecs = new Set<string>();
+
+interface WorkspaceEvaluationResult {
+  total: number;
+  /** Specs evaluated successfully */
+  evaluated: number;
+  /** Specs whose evaluation failed */
+  failed: number;
+}
+
+interface WorkspaceEvaluation {
+  result: Promise<WorkspaceEvaluationResult>;
+  /** Counts so far, returned to callers that cancel before the end */
+  progress: WorkspaceEvaluationResult;
+  /** Cancelled once every caller has cancelled */
+  cancellation: CancellationTokenSource;
+  callers: number;
+}
+
+let workspaceEvaluation: WorkspaceEvaluation | null = null;
+
+/**
+ * Evaluate every OpenAPI file in the workspace, reporting progress to the
+ * extension. Concurrent calls share the run in progress. A caller that
+ * cancels gets the counts so far; the run itself stops when no caller is
+ * left waiting for it (background indexing never cancels).
+ */
+function evaluateWorkspace(token?: CancellationToken): Promise<WorkspaceEvaluationResult> {
+  if (!workspaceEvaluation) {
+    const cancellation = new CancellationTokenSource();
+    const progress: WorkspaceEvaluationResult = { total: 0, evaluated: 0, failed: 0 };
+    workspaceEvaluation = {
+      result: runWorkspaceEvaluation(progress, cancellation.token).finally(() => {
+        workspaceEvaluation = null;
+        cancellation.dispose();
+      }),
+      progress,
+      cancellation,
+      callers: 0,
+    };
+  }
+
+  const run = workspaceEvaluation;
+  run.callers++;
+  if (!token) return run.result;
+
+  return new Promise((resolve, reject) => {
+    const subscription = token.onCancellationRequested(() => {
+      subscription.dispose();
+      if (--run.callers === 0) run.cancellation.cancel();
+      resolve({ ...run.progress });
+    });
+    run.result.then(resolve, reject).finally(() => subscription.dispose());
+  });
+}
+
+async function runWorkspaceEvaluation(
+  progress: WorkspaceEvaluationResult,
+  token: CancellationToken
+): Promise<WorkspaceEvaluationResult> {
+  const uris = await findOpenAPIFiles(workspaceFolders, token);
+  progress.total = uris.length;
+
+  connection.sendNotification("restlens/workspaceProgress", { done: 0, total: uris.length });
+
+  await runWithConcurrency(uris, WORKSPACE_CONCURRENCY, async (uri) => {
+    workspaceSpecs.add(uri);
+    const document = await loadDocument(uri);
+    const ok = document ? await validateDocument(document, { background: !documents.get(uri) }) : false;
+    if (ok) {
+      progress.evaluated++;
+    } else {
+      progress.failed++;
+    }
+    connection.sendNotification("restlens/workspaceProgress", {
+      done: progress.evaluated + progress.failed,
+      total: uris.length,
+    });
+  }, token);
+
+  return { ...progress };
+}
+
+function startBackgroundIndexing(): void {
+  if (!config.backgroundIndexing || !apiClient || !config.organization || !config.project) {
+    return;
+  }
+  evaluateWorkspace().catch((error) => {
+    connection.console.error(`Background indexing failed: ${error instanceof Error ? error.message : error}`);
+  });
+}
+
+connection.onRequest("restlens/evaluateWorkspace", async (_params: unknown, token: CancellationToken) => {
+  if (!apiClient) {
+    connection.window.showErrorMessage("REST Lens: Not authenticated");
+    return { total: 0, evaluated: 0, failed: 0 };
+  }
+  return evaluateWorkspace(token);
+});
+
+connection.onDidChangeWatchedFiles(async (params: DidChangeWatchedFilesParams) => {
+  // Refs under .git moved: handled once for the whole batch
+  const isGitRef = (uri: string) => URI.parse(uri).path.includes("/.git/");
+  if (params.changes.some((change) => isGitRef(change.uri))) {
+    await gitRefsChanged();
+  }
+
+  for (const change of params.changes) {
+    const uri = change.uri;
+    if (isGitRef(uri)) continue;
+    if (path.basename(URI.parse(uri).fsPath) === BASELINE_FILE) {
+      if (!(await isOwnBaselineWrite(URI.parse(uri).fsPath))) baselineFileChanged();
+      continue;
+    }
+    invalidatePreviousVersions(uri);
+    if (change.type === FileChangeType.Deleted) {
+      specIndex.remove(uri);
+    } else {
+      specIndex.invalidate(uri);
+    }
+    if (documents.get(uri)) continue; // Open documents are handled by document events
+
+    if (change.type === FileChangeType.Deleted) {
+      if (workspaceSpecs.delete(uri)) {
+        clearDiagnostics(uri);
+      }
+      continue;
+    }
+
+    if (dependentRoots.has(uri)) {
+      validateDependentRoots(uri);
+    }
+
+    if (!config.backgroundIndexing) continue;
+
+    const document = await loadDocument(uri);
+    if (document && isOpenAPIDocument(document)) {
+      workspaceSpecs.add(uri);
+      validateDocument(document, { background: true });
+    }
+  }
+});
+
+function scheduleValidation(document: TextDocument): void {
+  const uri = document.uri;
+  const debounceMs = config.debounceMs ?? 1000;
+
+  // The evaluation in flight is for older text; drop it now rather than
+  // letting it publish while the new one is debounced
+  cancelValidation(uri);
+
+  // Clear existing timer
+  const existingTimer = debounceTimers.get(uri);
+  if (existingTimer) {
+    clearTimeout(existingTimer);
+  }
+
+  // Schedule new validation
+  const timer = setTimeout(() => {
+    debounceTimers.delete(uri);
+    validateDocument(document);
+  }, debounceMs);
+
+  debounceTimers.set(uri, timer);
+}
+
+// =============================================================================
+// Baseline File
+// =============================================================================
+
+// Parsed baseline file per workspace folder path (null when there is none)
+const baselineFiles = new Map<string, Promise<BaselineFile | null>>();
+
+interface BaselineResult {
+  /** Entries in the baseline files after the change */
+  entries: number;
+  /** Entries dropped by a prune */
+  removed?: number;
+}
+
+function readBaselineFile(folder: string): Promise<BaselineFile | null> {
+  let file = baselineFiles.get(folder);
+  if (!file) {
+    const filePath = path.join(folder, BASELINE_FILE);
+    file = fs.readFile(filePath, "utf8").then(
+      (text) => {
+        const parsed = parseBaselineFile(text);
+        if (!parsed) connection.console.warn(`Ignoring malformed baseline file ${filePath}`);
+        return parsed;
+      },
+      () => null
+    );
+    baselineFiles.set(folder, file);
+  }
+  return file;
+}
+
+/**
+ * Signatures of the baselined violations of a spec, or null when its
+ * workspace folder has no baseline file.
+ */
+async function loadBaselineFile(uri: string): Promise<Set<string> | null> {
+  const location = specLocation(uri);
+  const file = location ? await readBaselineFile(location.folder) : null;
+  if (!location || !file) return null;
+  return new Set((file.specs[location.spec] ?? []).map(entrySignature));
+}
+
+/**
+ * Re-render every spec with diagnostics against the new baseline. Results
+ * come from the cache, so nothing is evaluated again.
+ */
+function baselineFileChanged(): void {
+  baselineFiles.clear();
+  documents.all().forEach((doc) => validateDocument(doc));
+  for (const uri of workspaceSpecs) {
+    if (documents.get(uri)) continue;
+    loadDocument(uri).then((document) => {
+      if (document) validateDocument(document, { background: true });
+    });
+  }
+}
+
+// Text last written to each folder's baseline file, so the watcher event
+// that follows the write does not re-validate everything a second time
+const writtenBaselines = new Map<string, string>();
+
+async function writeBaselineFiles(files: Map<string, BaselineFile>): Promise<number> {
+  let entries = 0;
+  for (const [folder, file] of files) {
+    const text = serializeBaselineFile(file);
+    await fs.writeFile(path.join(folder, BASELINE_FILE), text, "utf8");
+    writtenBaselines.set(folder, text);
+    entries += Object.values(file.specs).reduce((sum, list) => sum + list.length, 0);
+  }
+  baselineFileChanged();
+  return entries;
+}
+
+/**
+ * Whether a baseline file still holds the text this server wrote to it.
+ */
+async function isOwnBaselineWrite(filePath: string): Promise<boolean> {
+  const written = writtenBaselines.get(path.dirname(filePath));
+  if (written === undefined) return false;
+  writtenBaselines.delete(path.dirname(filePath));
+  try {
+    return (await fs.readFile(filePath, "utf8")) === written;
+  } catch {
+    return false;
+  }
+}
+
+interface BaselineEvaluator {
+  client: RestLensClient;
+  scope: CacheScope;
+}
+
+/**
+ * Current violations of a spec, evaluated by the API or taken from the
+ * cache without publishing. Suppressed violations are left out. Null when
+ * the file is not a readable spec.
+ */
+async function currentViolations(uri: string, { client, scope }: BaselineEvaluator): Promise<ViolationKV[] | null> {
+  const document = await loadDocument(uri);
+  const spec = document ? parseOpenAPISpec(document.getText()) : null;
+  if (!document || !spec) return null;
+
+  const bundle = await bundleSpec(uri, spec, readDocument);
+  const violations = await evaluateCached(client, bundle, document.getText(), scope);
+  return applySuppressions(violations, collectSuppressions(bundle.spec), (key) => violationPointer(key, bundle.spec));
+}
+
+/**
+ * The API client and project to update the baseline with, or null (after
+ * telling the user) when there is none. The baseline must reflect what
+ * the configured project reports, not the few rules of the local engine.
+ */
+function baselineEvaluator(): BaselineEvaluator | null {
+  if (config.mode === "offline") {
+    connection.window.showErrorMessage("REST Lens: The baseline records the project's findings; turn off offline mode to update it");
+    return null;
+  }
+  const scope = currentScope();
+  if (!apiClient || !scope) {
+    connection.window.showErrorMessage("REST Lens: Sign in and select a project to update the baseline");
+    return null;
+  }
+  return { client: apiClient, scope };
+}
+
+connection.onRequest("restlens/createBaseline", async (_params: unknown, token: CancellationToken) => {
+  const evaluator = baselineEvaluator();
+  if (!evaluator) return null;
+
+  const uris = await findOpenAPIFiles(workspaceFolders, token);
+  const files = new Map<string, BaselineFile>();
+  const failed: string[] = [];
+
+  await runWithConcurrency(uris, WORKSPACE_CONCURRENCY, async (uri) => {
+    const location = specLocation(uri);
+    if (!location) return;
+    try {
+      const violations = await currentViolations(uri, evaluator);
+      if (!violations) return;
+      if (!files.has(location.folder)) files.set(location.folder, { version: 1, specs: {} });
+      files.get(location.folder)!.specs[location.spec] = baselineEntries(violations);
+    } catch (error) {
+      connection.console.error(`Baseline: ${location.spec}: ${error instanceof Error ? error.message : error}`);
+      failed.push(location.spec);
+    }
+  }, token);
+
+  if (token.isCancellationRequested) return null;
+  // A partial snapshot would turn the missing findings into "new" ones
+  if (failed.length > 0) {
+    return new ResponseError(ErrorCodes.InternalError, `Could not evaluate ${failed.join(", ")}`);
+  }
+
+  const result: BaselineResult = { entries: await writeBaselineFiles(files) };
+  return result;
+});
+
+connection.onRequest("restlens/pruneBaseline", async (_params: unknown, token: CancellationToken) => {
+  const evaluator = baselineEvaluator();
+  if (!evaluator) return null;
+
+  const files = new Map<string, BaselineFile>();
+  let removed = 0;
+
+  for (const folderUri of workspaceFolders) {
+    const folder = URI.parse(folderUri).fsPath;
+    baselineFiles.delete(folder);
+    const file = await readBaselineFile(folder);
+    if (!file) continue;
+
+    await runWithConcurrency(Object.keys(file.specs), WORKSPACE_CONCURRENCY, async (spec) => {
+      const uri = URI.file(path.join(folder, spec)).toString();
+      let violations: ViolationKV[] | null;
+      try {
+        violations = await currentViolations(uri, evaluator);
+      } catch (error) {
+        connection.console.error(`Baseline: ${spec}: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+      // A spec that exists but does not parse right now keeps its entries
+      if (!violations && (await readDocument(uri)) !== null) return;
+
+      const current = violations ? violationSignatures(violations) : new Set<string>();
+      const kept = file.specs[spec].filter((entry) => current.has(entrySignature(entry)));
+      removed += file.specs[spec].length - kept.length;
+      file.specs[spec] = kept;
+    }, token);
+
+    if (token.isCancellationRequested) return null;
+    files.set(folder, file);
+  }
+
+  const result: BaselineResult = { entries: await writeBaselineFiles(files), removed };
+  return result;
+});
+
+// =============================================================================
+// Document Events
+// =============================================================================
+
+documents.onDidOpen((event) => {
+  console.error(`[OPEN] Document opened: ${event.document.uri}`);
+  validateDocument(event.document);
+});
+
+documents.onDidChangeContent((event) => {
+  specIndex.invalidate(event.document.uri);
+  invalidatePreviousVersions(event.document.uri);
+  if (config.evaluateOnType) {
+    scheduleValidation(event.document);
+  }
+});
+
+documents.onDidSave((event) => {
+  if (config.evaluateOnSave !== false) {
+    validateDocument(event.document);
+    validateDependentRoots(event.document.uri);
+  }
+});
+
+documents.onDidClose((event) => {
+  // Back to the file on disk
+  specIndex.invalidate(event.document.uri);
+
+  // Clear debounce timer
+  const timer = debounceTimers.get(event.document.uri);
+  if (timer) {
+    clearTimeout(timer);
+    debounceTimers.delete(event.document.uri);
+  }
+  // Diagnostics of workspace-evaluated specs stay in the Problems panel
+  if (workspaceSpecs.has(event.document.uri)) {
+    return;
+  }
+
+  // Clear diagnostics, except those contributed by specs including this file
+  const external = collectExternalDiagnostics(event.document.uri);
+  if (external.length > 0) {
+    publishDiagnostics(event.document.uri, external);
+  } else {
+    clearDiagnostics(event.document.uri);
+  }
+});
+
+// =============================================================================
+// Hover Provider (Rule Documentation)
+// =============================================================================
+
+function rangeContains(range: Range, position: Position): boolean {
+  if (position.line < range.start.line || position.line > range.end.line) return false;
+  if (position.line === range.start.line && position.character < range.start.character) return false;
+  if (position.line === range.end.line && position.character > range.end.character) return false;
+  return true;
+}
+
+connection.onHover(async (params: HoverParams): Promise<Hover | null> => {
+  const uri = params.textDocument.uri;
+  const diagnostics = publishedDiagnostics.get(uri)?.diagnostics || [];
+
+  const sections: string[] = [];
+  for (const diagnostic of diagnostics) {
+    const offline = diagnostic.source === OFFLINE_DIAGNOSTIC_SOURCE;
+    if (diagnostic.source !== DIAGNOSTIC_SOURCE && !offline) continue;
+    if (!rangeContains(diagnostic.range, params.position)) continue;
+
+    const violationData = violationDataOf(diagnostic);
+    if (!violationData) continue;
+
+    // Local rules document themselves; API rules are fetched (or reused)
+    const client = apiClient;
+    let docs = null;
+    if (offline) {
+      docs = getLocalRuleDocumentation(violationData.ruleSlug);
+    } else if (client && violationData.ruleId) {
+      docs = await ruleDocs.get(client, violationData.ruleId);
+    }
+
+    sections.push(formatRuleHover(
+      violationData,
+      docs,
+      client ? client.getRuleUrl(violationData.ruleSlug) : null
+    ));
+  }
+
+  if (sections.length === 0) {
+    return null;
+  }
+
+  return { contents: toMarkup(sections) };
+});
+
+// =============================================================================
+// Completions
+// =============================================================================
+
+connection.onCompletion(async (params: CompletionParams): Promise<CompletionItem[]> => {
+  const uri = params.textDocument.uri;
+  const document = documents.get(uri);
+  // Specs, and the files they include through $refs
+  if (!document || !(isOpenAPIDocument(document) || dependentRoots.has(uri))) return [];
+  return getCompletions(uri, document.getText(), params.position);
+});
+
+// =============================================================================
+// Symbols
+// =============================================================================
+
+connection.onDocumentSymbol((params: DocumentSymbolParams): DocumentSymbol[] => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document || !isOpenAPIDocument(document)) return [];
+  return buildDocumentSymbols(parseSpecAst(document.getText()));
+});
+
+connection.onWorkspaceSymbol(async (params: WorkspaceSymbolParams, token: CancellationToken): Promise<SymbolInformation[]> => {
+  const specs = await specIndex.all();
+  if (token.isCancellationRequested) return [];
+  return searchWorkspaceSymbols(specs, params.query);
+});
+
+// =============================================================================
+// $ref Navigation
+// =============================================================================
+
+connection.onDefinition(async (params: DefinitionParams): Promise<Location | null> => {
+  const uri = params.textDocument.uri;
+  const document = documents.get(uri);
+  if (!document) return null;
+
+  const ast = parseSpecAst(document.getText());
+  const ref = refAt(uri, ast, params.position);
+  if (!ref) return null;
+
+  const targetAst = ref.target.uri === uri ? ast : await loadAst(ref.target.uri);
+  return targetAst ? targetLocation(targetAst, ref.target) : null;
+});
+
+connection.onReferences(async (params: ReferenceParams, token: CancellationToken): Promise<Location[]> => {
+  const uri = params.textDocument.uri;
+  const document = documents.get(uri);
+  if (!document) return [];
+
+  // On a $ref: other refs to its target. Elsewhere: refs to the node itself.
+  const ast = parseSpecAst(document.getText());
+  const target = refAt(uri, ast, params.position)?.target ?? { uri, pointer: pointerAt(ast, params.position) };
+  if (target.pointer.length === 0 && target.uri === uri) return [];
+
+  const files = await loadWorkspaceRefGraph(new Map([[uri, ast]]));
+  if (token.isCancellationRequested) return [];
+
+  const locations: Location[] = findReferences(files, target).map((ref) => ({ uri: ref.uri, range: ref.range }));
+  if (params.context.includeDeclaration) {
+    const targetAst = files.get(target.uri) ?? await loadAst(target.uri);
+    const declaration = targetAst ? targetLocation(targetAst, target) : null;
+    if (declaration) locations.unshift(declaration);
+  }
+  return locations;
+});
+
+async function loadAst(uri: string): Promise<SpecAst | null> {
+  const text = await readDocument(uri);
+  return text === null ? null : parseSpecAst(text);
+}
+
+/**
+ * Every workspace spec and the files their $refs lead to, parsed.
+ * The given documents are included even when they are not specs.
+ */
+async function loadWorkspaceRefGraph(include: Map<string, SpecAst>): Promise<Map<string, SpecAst>> {
+  const seeds = new Map<string, SpecAst>();
+  for (const spec of await specIndex.all()) {
+    seeds.set(spec.uri, spec.ast);
+  }
+  for (const [uri, ast] of include) {
+    seeds.set(uri, ast);
+  }
+  return loadRefGraph(seeds, readDocument);
+}
+
+// =============================================================================
+// Rename
+// =============================================================================
+
+connection.onPrepareRename((params: PrepareRenameParams) => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document) return null;
+
+  const target = renameTargetAt(params.textDocument.uri, parseSpecAst(document.getText()), params.position);
+  return target ? { range: target.range, placeholder: target.name } : null;
+});
+
+connection.onRenameRequest(async (params: RenameParams): Promise<WorkspaceEdit | ResponseError | null> => {
+  const uri = params.textDocument.uri;
+  const document = documents.get(uri);
+  if (!document) return null;
+
+  const ast = parseSpecAst(document.getText());
+  const target = renameTargetAt(uri, ast, params.position);
+  if (!target) return null;
+
+  try {
+    if (target.kind === "component") {
+      // $refs to a component can come from any spec in the workspace
+      const files = await loadWorkspaceRefGraph(new Map([[uri, ast]]));
+      return { changes: renameComponentEdits(files, target, params.newName) };
+    }
+    // Links reference operations of the same API: this file and the files it includes
+    const files = await loadRefGraph(new Map([[uri, ast]]), readDocument);
+    return { changes: renameOperationIdEdits(files, target, params.newName) };
+  } catch (error) {
+    if (error instanceof RenameError) {
+      return new ResponseError(ErrorCodes.InvalidRequest, error.message);
+    }
+    throw error;
+  }
+});
+
+// =============================================================================
+// Pull Diagnostics
+// =============================================================================
+
+connection.languages.diagnostics.on(async (params: DocumentDiagnosticParams): Promise<DocumentDiagnosticReport> => {
+  const uri = params.textDocument.uri;
+
+  // Wait for an evaluation in progress, or start one for documents never seen
+  const pending = pendingValidations.get(uri);
+  if (pending) {
+    await pending;
+  } else if (!publishedDiagnostics.has(uri)) {
+    const document = documents.get(uri);
+    if (document) {
+      await validateDocument(document);
+    }
+  }
+
+  const report = publishedDiagnostics.get(uri);
+  if (!report) {
+    return { kind: DocumentDiagnosticReportKind.Full, items: [] };
+  }
+
+  if (params.previousResultId === report.resultId) {
+    return { kind: DocumentDiagnosticReportKind.Unchanged, resultId: report.resultId };
+  }
+
+  return { kind: DocumentDiagnosticReportKind.Full, resultId: report.resultId, items: report.diagnostics };
+});
+
+connection.languages.diagnostics.onWorkspace((params: WorkspaceDiagnosticParams): WorkspaceDiagnosticReport => {
+  const previousResultIds = new Map(params.previousResultIds.map((previous) => [previous.uri, previous.value]));
+  const items: WorkspaceDocumentDiagnosticReport[] = [];
+
+  for (const [uri, report] of publishedDiagnostics) {
+    const version = documents.get(uri)?.version ?? null;
+
+    if (previousResultIds.get(uri) === report.resultId) {
+      items.push({ kind: DocumentDiagnosticReportKind.Unchanged, uri, version, resultId: report.resultId });
+    } else {
+      items.push({ kind: DocumentDiagnosticReportKind.Full, uri, version, resultId: report.resultId, items: report.diagnostics });
+    }
+  }
+
+  return { items };
+});
+
+// =============================================================================
+// Code Lenses
+// =============================================================================
+
+connection.onCodeLens((params: CodeLensParams): CodeLens[] => {
+  if (config.codeLens === false) return [];
+
+  const uri = params.textDocument.uri;
+  const document = documents.get(uri);
+  if (!document || !isOpenAPIDocument(document)) return [];
+
+  return buildCodeLenses(document.getText(), collectLensViolations(uri));
+});
+
+/**
+ * Diagnostics published for a root spec, in its own file and in the
+ * external files it includes, with the violations behind them.
+ */
+function collectLensViolations(rootUri: string): LensViolation[] {
+  const violations: LensViolation[] = [];
+
+  const add = (uri: string, diagnostics: Diagnostic[]) => {
+    for (const diagnostic of diagnostics) {
+      // Baselined findings shown as hints are not problems to summarize
+      if (diagnostic.severity === DiagnosticSeverity.Hint) continue;
+      const violationData = violationDataOf(diagnostic);
+      if (violationData) {
+        violations.push({ uri, diagnostic, key: violationData.violationKey, ruleSlug: violationData.ruleSlug });
+      }
+    }
+  };
+
+  add(rootUri, publishedDiagnostics.get(rootUri)?.diagnostics ?? []);
+  for (const [fileUri, byRoot] of externalDiagnostics) {
+    add(fileUri, byRoot.get(rootUri) ?? []);
+  }
+
+  return violations;
+}
+
+// =============================================================================
+// Code Actions (Quick Fixes)
+// =============================================================================
+
+/** Quick fix that edits the spec, completed by resolveQuickFix() */
+interface QuickFixData {
+  uri: string;
+  type: "fix" | "suppress";
+}
+
+connection.onCodeAction(async (params: CodeActionParams): Promise<CodeAction[]> => {
+  const actions: CodeAction[] = [];
+  const uri = params.textDocument.uri;
+
+  const document = documents.get(uri);
+  // Listed without their edits; clients that can't resolve get them now,
+  // and only the fixes that apply
+  const quickFix = async (action: CodeAction, type: QuickFixData["type"]): Promise<void> => {
+    const data: QuickFixData = { uri, type };
+    action.data = data;
+    if (!hasCodeActionResolveSupport) {
+      action = await resolveQuickFix(action);
+      if (!action.edit) return;
+    }
+    actions.push(action);
+  };
+
+  // Only provide actions for REST Lens diagnostics; the violation behind
+  // each one travels in its data, whatever edits happened since
+  const candidates = params.context.diagnostics.flatMap((diagnostic) => {
+    const offline = diagnostic.source === OFFLINE_DIAGNOSTIC_SOURCE;
+    if (diagnostic.source !== DIAGNOSTIC_SOURCE && !offline) return [];
+    const violationData = violationDataOf(diagnostic);
+    return violationData ? [{ diagnostic, violationData, offline }] : [];
+  });
+
+  // Mechanical fixes that apply, their edits computed on resolve
+  const fixes = document
+    ? applicableSpecFixes(
+        document.getText(),
+        candidates.map(({ diagnostic, violationData }) => ({ ruleSlug: violationData.ruleSlug, position: diagnostic.range.start }))
+      )
+    : [];
+
+  for (const [i, { diagnostic, violationData, offline }] of candidates.entries()) {
+    // Mechanical fix that edits the spec
+    const fix = fixes[i];
+    if (fix) {
+      const action: CodeAction = {
+        title: fix.title,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+      };
+      // Inserted empty: put the cursor there to type the value
+      if (fix.fillIn) {
+        action.command = {
+          title: "Fill In",
+          command: "restlens.fillIn",
+          arguments: [uri, diagnostic.range.start, fix.fillIn],
+        };
+      }
+      await quickFix(action, "fix");
+    }
+
+    // Suppress in the file itself, visible in code review
+    if (document) {
+      await quickFix({
+        title: `Suppress "${violationData.ruleSlug}" here with ${SUPPRESSION_KEY}`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+      }, "suppress");
+    }
+
+    // Server-side ignores need an API rule
+    if (offline) continue;
+
+    // Action 1: Ignore this rule (the client asks for scope, reason and expiry)
+    actions.push({
+      title: `Ignore "${violationData.ruleSlug}"...`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      command: {
+        title: "Ignore Rule",
+        command: "restlens.ignoreRule",
+        arguments: [violationData.ruleId, violationData.violationKey, uri, violationData.ruleSlug],
+      },
+    });
+
+    // Action 2: Ignore all rules
+    actions.push({
+      title: `Ignore all rules...`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      command: {
+        title: "Ignore All",
+        command: "restlens.ignoreGlobal",
+        arguments: [violationData.violationKey, uri],
+      },
+    });
+  }
+
+  if (document) {
+    actions.push(...sourceActions(document, params.context));
+  }
+
+  return actions;
+});
+
+connection.onCodeActionResolve(async (action: CodeAction): Promise<CodeAction> => {
+  const resolved = await resolveQuickFix(action);
+  if (!resolved.edit && resolved.data) {
+    connection.window.showErrorMessage(`REST Lens: "${resolved.title}" no longer applies to the current text`);
+  }
+  return resolved;
+});
+
+/**
+ * Fill in the edit of a quick fix, from the violation data of its
+ * diagnostic and the current text of the document. Fixes that rename a
+ * path also retarget the $refs to it in other workspace files. The action
+ * is left without an edit when the fix doesn't apply.
+ */
+async function resolveQuickFix(action: CodeAction): Promise<CodeAction> {
+  const data = action.data as QuickFixData | undefined;
+  const diagnostic = action.diagnostics?.[0];
+  const violationData = diagnostic ? violationDataOf(diagnostic) : null;
+  const document = data ? documents.get(data.uri) : undefined;
+  if (!data || !diagnostic || !violationData || !document) return action;
+
+  const text = document.getText();
+  const position = diagnostic.range.start;
+  if (data.type === "fix") {
+    const fix = getSpecFix(violationData.ruleSlug, text, position);
+    if (fix) {
+      action.title = fix.title;
+      const changes: Record<string, TextEdit[]> = {};
+      if (fix.moved) {
+        const files = await loadWorkspaceRefGraph(new Map([[data.uri, parseSpecAst(text)]]));
+        files.delete(data.uri);
+        Object.assign(changes, retargetRefEdits(files, data.uri, fix.moved.from, fix.moved.to));
+      }
+      changes[data.uri] = fix.edits;
+      action.edit = { changes };
+    }
+  } else {
+    const edit = suppressionEdit(text, position, violationData.ruleSlug);
+    if (edit) action.edit = { changes: { [data.uri]: [edit] } };
+  }
+  return action;
+}
+
+/**
+ * Document-wide actions over the diagnostics published for a document:
+ * every auto-fix at once, and per rule, suppressing all its violations.
+ */
+function sourceActions(document: TextDocument, context: CodeActionContext): CodeAction[] {
+  const uri = document.uri;
+  const text = document.getText();
+  const byRule = new Map<string, Diagnostic[]>();
+  for (const { diagnostic, ruleSlug } of relocateDiagnostics(text, publishedDiagnostics.get(uri)?.diagnostics ?? [])) {
+    if (!byRule.has(ruleSlug)) byRule.set(ruleSlug, []);
+    byRule.get(ruleSlug)!.push(diagnostic);
+  }
+
+  const actions: CodeAction[] = [];
+
+  if (isKindRequested(context, FIX_ALL_KIND)) {
+    const diagnostics = Array.from(byRule).flatMap(([ruleSlug, list]) =>
+      list.map((diagnostic) => ({ ruleSlug, position: diagnostic.range.start }))
+    );
+    const fixes = getSpecFixes(text, diagnostics);
+    const { edits, skipped } = combineEdits(fixes.map((fix) => fix.edits));
+    if (edits.length > 0) {
+      actions.push({
+        title: `Fix all auto-fixable REST Lens violations${skippedNote(skipped)}`,
+        kind: FIX_ALL_KIND,
+        edit: { changes: { [uri]: edits } },
+      });
+    }
+  }
+
+  for (const [ruleSlug, diagnostics] of byRule) {
+    const kind = `${IGNORE_ALL_OF_RULE_KIND}.${ruleSlug}`;
+    if (!isKindRequested(context, kind)) continue;
+
+    // Baselined findings shown as hints are already accepted
+    const active = diagnostics.filter((diagnostic) => diagnostic.severity !== DiagnosticSeverity.Hint);
+    const { edits, skipped } = combineEdits(
+      suppressionEdits(text, active.map((diagnostic) => diagnostic.range.start), ruleSlug).map((edit) => [edit])
+    );
+    if (edits.length === 0) continue;
+
+    actions.push({
+      title: `Suppress all "${ruleSlug}" violations in this file with ${SUPPRESSION_KEY} (${active.length})${skippedNote(skipped)}`,
+      kind,
+      diagnostics: active,
+      edit: { changes: { [uri]: edits } },
+    });
+  }
+
+  return actions;
+}
+
+/**
+ * Title suffix for source actions that left overlapping edits out.
+ */
+function skippedNote(skipped: number): string {
+  if (skipped === 0) return "";
+  return ` (${skipped} overlapping edit${skipped === 1 ? "" : "s"} left for a second run)`;
+}
+
+// =============================================================================
+// Ignores
+// =============================================================================
+
+connection.onRequest("restlens/listIgnores", async (): Promise<IgnoreRecord[] | null> => {
+  if (!apiClient || !currentScope()) return null;
+  return apiClient.listIgnores();
+});
+
+connection.onRequest("restlens/removeIgnore", async (params: { id: string; ruleId?: number | null; violationKey: ViolationKey }) => {
+  if (!apiClient) {
+    connection.window.showErrorMessage("REST Lens: Not authenticated");
+    return;
+  }
+
+  await apiClient.removeIgnore(params.id, params.ruleId);
+  projectIgnores = null;
+  connection.sendNotification("restlens/ignoresChanged");
+
+  // Violations the ignore silenced come back on the next evaluation
+  await clearProjectResults();
+  for (const document of documentsAffectedBy(params.violationKey)) {
+    validateDocument(document, { refresh: true });
+  }
+});
+
+/**
+ * Drop cached results of the configured project, in memory and on disk,
+ * after its ignores changed.
+ */
+async function clearProjectResults(): Promise<void> {
+  cache.clear();
+  baselineCache.clear();
+  const scope = currentScope();
+  if (!scope) return;
+  try {
+    await persistentCache?.clearScope(scope);
+  } catch (error) {
+    connection.console.error(`Persistent cache clear failed: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Open specs an ignore may apply to: those with the ignored path, or all
+ * of them for ignores without one.
+ */
+function documentsAffectedBy(key: ViolationKey): TextDocument[] {
+  return documents.all().filter((document) => {
+    if (!isOpenAPIDocument(document)) return false;
+    if (!key.path) return true;
+    const spec = parseOpenAPISpec(document.getText());
+    return !!spec && getAtPointer(spec, ["paths", key.path]) !== undefined;
+  });
+}
+
+// =============================================================================
+// Execute Commands (Apply Ignores)
+// =============================================================================
 
 connection.onExecuteCommand(async (params) => {
+  if (params.command === "restlens.fillIn") {
+    const [uri, position, key] = params.arguments as [string, Position, string];
+    const document = documents.get(uri);
+    const target = document ? fillInPosition(document.getText(), position, key) : null;
+    if (target) {
+      await connection.window.showDocument({ uri, takeFocus: true, selection: { start: target, end: target } });
+    }
+    return;
+  }
+
+  // Ignores for a whole file stay in the file: the ignores API only knows
+  // violation keys, and an empty one would cover every spec of the project
+  if (params.command === "restlens.ignoreRule" || params.command === "restlens.ignoreGlobal") {
+    const rule = params.command === "restlens.ignoreRule";
+    const args = params.arguments ?? [];
+    const waiver = args[rule ? 4 : 2] as IgnoreWaiver | undefined;
+    if (waiver?.scope === "file") {
+      await suppressInFile(args[rule ? 2 : 1] as string, rule ? (args[3] as string) : ALL_RULES, waiver.reason ?? "");
+      return;
+    }
+  }
+
   if (!apiClient) {
     connection.window.showErrorMessage("REST Lens: Not authenticated");
     return;
@@ -411,25 +2154,17 @@ connection.onExecuteCommand(async (params) => {
 
   try {
     if (params.command === "restlens.ignoreRule") {
-      const [ruleId, violationKey, uri] = params.arguments as [number, ViolationKey, string];
-      await apiClient.addRuleIgnore(ruleId, violationKey);
-      connection.window.showInformationMessage(`REST Lens: Rule ignored for this location`);
-      // Re-validate to update diagnostics
-      const document = documents.get(uri);
-      if (document) {
-        cache.clear(); // Clear cache to force re-fetch
-        validateDocument(document);
-      }
+      const [ruleId, violationKey, , , waiver] = params.arguments as [number, ViolationKey, string, string, IgnoreOptions?];
+      const { key, options } = ignoreRequest(violationKey, waiver);
+      await apiClient.addRuleIgnore(ruleId, key, options);
+      connection.window.showInformationMessage(`REST Lens: Rule ignored ${SCOPE_LABELS[options.scope ?? "location"]}`);
+      await ignoresChanged(key);
     } else if (params.command === "restlens.ignoreGlobal") {
-      const [violationKey, uri] = params.arguments as [ViolationKey, string];
-      await apiClient.addGlobalIgnore(violationKey);
-      connection.window.showInformationMessage(`REST Lens: All rules ignored for this location`);
-      // Re-validate to update diagnostics
-      const document = documents.get(uri);
-      if (document) {
-        cache.clear(); // Clear cache to force re-fetch
-        validateDocument(document);
-      }
+      const [violationKey, , waiver] = params.arguments as [ViolationKey, string, IgnoreOptions?];
+      const { key, options } = ignoreRequest(violationKey, waiver);
+      await apiClient.addGlobalIgnore(key, options);
+      connection.window.showInformationMessage(`REST Lens: All rules ignored ${SCOPE_LABELS[options.scope ?? "location"]}`);
+      await ignoresChanged(key);
     }
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -437,6 +2172,64 @@ connection.onExecuteCommand(async (params) => {
   }
 });
 
+const SCOPE_LABELS: Record<IgnoreScope, string> = {
+  location: "for this location",
+  operation: "for this operation",
+  path: "for this path",
+};
+
+/**
+ * Scope, reason and expiry the client asked for with an ignore command.
+ * The "file" scope is handled in the file itself.
+ */
+interface IgnoreWaiver extends Omit<IgnoreOptions, "scope"> {
+  scope?: IgnoreScope | "file";
+}
+
+/**
+ * Violation key and waiver details of a new ignore. The client may pass a
+ * scope, reason and expiry; without them the ignore covers the location.
+ */
+function ignoreRequest(violationKey: ViolationKey, waiver: IgnoreOptions = {}): { key: ViolationKey; options: IgnoreOptions } {
+  const scope = waiver.scope ?? "location";
+  return { key: scopedViolationKey(violationKey, scope), options: { ...waiver, scope } };
+}
+
+/**
+ * Suppress a rule, or all of them, in a whole file with an annotation at
+ * its root. The edit re-evaluates the document like any other.
+ */
+async function suppressInFile(uri: string, ruleSlug: string, reason: string): Promise<void> {
+  const document = documents.get(uri);
+  const edit = document ? fileSuppressionEdit(document.getText(), ruleSlug, reason) : null;
+  if (!edit) {
+    connection.window.showErrorMessage(`REST Lens: Could not add "${ruleSlug}" to the ${SUPPRESSION_KEY} at the root of this file`);
+    return;
+  }
+
+  const subject = ruleSlug === ALL_RULES ? "All rules" : "Rule";
+  const result = await connection.workspace.applyEdit({
+    label: `Ignore ${subject.toLowerCase()} for this file`,
+    edit: { changes: { [uri]: [edit] } },
+  });
+  if (result.applied) {
+    connection.window.showInformationMessage(`REST Lens: ${subject} ignored for this file with ${SUPPRESSION_KEY}`);
+  }
+}
+
+/**
+ * Re-evaluate the open specs a new ignore applies to.
+ */
+async function ignoresChanged(key: ViolationKey): Promise<void> {
+  projectIgnores = null;
+  connection.sendNotification("restlens/ignoresChanged");
+
+  await clearProjectResults(); // Force a re-fetch
+  for (const document of documentsAffectedBy(key)) {
+    validateDocument(document, { refresh: true });
+  }
+}
+
 // =============================================================================
 // Start Server
 // =============================================================================
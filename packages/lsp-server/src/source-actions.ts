@@ -0,0 +1,86 @@
+/**
+ * Source Actions
+ *
+ * Document-wide code actions: apply every auto-fix, or suppress every
+ * violation of one rule. Their kinds can be listed in the editor's
+ * `editor.codeActionsOnSave`.
+ */
+
+import { CodeActionContext, CodeActionTriggerKind, Diagnostic, Range, TextEdit } from "vscode-languageserver/node";
+import { parseSpecAst, pointerRange } from "./ast";
+import { violationDataOf, violationPointer } from "./diagnostics";
+
+/** Apply every available auto-fix in the document */
+export const FIX_ALL_KIND = "source.fixAll.restlens";
+
+/** Suppress every violation of a rule; one sub-kind per rule slug */
+export const IGNORE_ALL_OF_RULE_KIND = "source.restlens.ignoreAllOfRule";
+
+/**
+ * Whether the client asked for actions of a kind. Without an explicit
+ * filter, source actions are only computed when invoked by the user.
+ */
+export function isKindRequested(context: CodeActionContext, kind: string): boolean {
+  if (context.only) {
+    return context.only.some((requested) => kind === requested || kind.startsWith(`${requested}.`));
+  }
+  return context.triggerKind === CodeActionTriggerKind.Invoked;
+}
+
+/**
+ * Published diagnostics moved to where their violations are in the current
+ * text. Diagnostics can be older than the text, so each violation is looked
+ * up again by its key. Those whose key doesn't resolve (placed by the line
+ * finder) keep their range, like a quick fix on them would; diagnostics
+ * without violation data are left out.
+ */
+export function relocateDiagnostics(text: string, diagnostics: Diagnostic[]): { diagnostic: Diagnostic; ruleSlug: string }[] {
+  const ast = parseSpecAst(text);
+  const spec: unknown = ast.document.toJS();
+
+  const located: { diagnostic: Diagnostic; ruleSlug: string }[] = [];
+  for (const diagnostic of diagnostics) {
+    const violationData = violationDataOf(diagnostic);
+    if (!violationData) continue;
+    const pointer = violationPointer(violationData.violationKey, spec);
+    const range = (pointer ? pointerRange(ast, pointer) : null) ?? diagnostic.range;
+    located.push({ diagnostic: { ...diagnostic, range }, ruleSlug: violationData.ruleSlug });
+  }
+  return located;
+}
+
+export interface CombinedEdits {
+  edits: TextEdit[];
+  /** Groups left out because they overlap an earlier one */
+  skipped: number;
+}
+
+/**
+ * Merge groups of edits computed against the same text into one list.
+ * A group that overlaps an earlier one is left out whole and counted in
+ * `skipped`; running the action again applies it against the updated text.
+ */
+export function combineEdits(groups: TextEdit[][]): CombinedEdits {
+  const edits: TextEdit[] = [];
+  let skipped = 0;
+  for (const group of groups) {
+    if (group.some((edit) => edits.some((other) => overlaps(edit.range, other.range)))) {
+      skipped++;
+      continue;
+    }
+    edits.push(...group);
+  }
+  return { edits, skipped };
+}
+
+/**
+ * Ranges sharing any position. Two insertions at the same point overlap
+ * too, since their order would decide the result.
+ */
+function overlaps(a: Range, b: Range): boolean {
+  return !(isBefore(a.end, b.start) || isBefore(b.end, a.start));
+}
+
+function isBefore(a: Range["start"], b: Range["start"]): boolean {
+  return a.line < b.line || (a.line === b.line && a.character < b.character);
+}
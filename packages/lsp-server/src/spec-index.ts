@@ -0,0 +1,99 @@
+/**
+ * Spec Index
+ *
+ * Parsed OpenAPI files of the workspace, for features that look across
+ * files. The workspace is scanned on first use; afterwards files are
+ * re-read lazily when document or file-watcher events mark them changed.
+ */
+
+import { isOpenAPIContent } from "@restlens/lib";
+import { parseSpecAst, type SpecAst } from "./ast";
+import type { FileReader } from "./ref-resolver";
+
+export interface IndexedSpec {
+  uri: string;
+  text: string;
+  ast: SpecAst;
+}
+
+export class SpecIndex {
+  // Known spec files; null until (re-)read
+  private specs = new Map<string, IndexedSpec | null>();
+  private scan: Promise<void> | null = null;
+  private findFiles: () => Promise<string[]>;
+  private readFile: FileReader;
+
+  constructor(findFiles: () => Promise<string[]>, readFile: FileReader) {
+    this.findFiles = findFiles;
+    this.readFile = readFile;
+  }
+
+  /**
+   * Every spec in the index, scanning the workspace on first use.
+   */
+  async all(): Promise<IndexedSpec[]> {
+    await this.ensureScanned();
+
+    const result: IndexedSpec[] = [];
+    for (const uri of Array.from(this.specs.keys())) {
+      const spec = await this.get(uri);
+      if (spec) result.push(spec);
+    }
+    return result;
+  }
+
+  /**
+   * A spec by URI, read and parsed on demand.
+   * Returns null (and forgets the file) when it is not an OpenAPI document.
+   */
+  async get(uri: string): Promise<IndexedSpec | null> {
+    const cached = this.specs.get(uri);
+    if (cached) return cached;
+
+    const text = await this.readFile(uri);
+    if (text === null || !isOpenAPIContent(text)) {
+      this.specs.delete(uri);
+      return null;
+    }
+
+    const spec = { uri, text, ast: parseSpecAst(text) };
+    this.specs.set(uri, spec);
+    return spec;
+  }
+
+  /**
+   * Mark a file as changed. It is re-read on next use, which also picks up
+   * new spec files and drops files that stopped being specs.
+   */
+  invalidate(uri: string): void {
+    this.specs.set(uri, null);
+  }
+
+  remove(uri: string): void {
+    this.specs.delete(uri);
+  }
+
+  /**
+   * Forget everything and rescan on next use (workspace folders changed).
+   */
+  reset(): void {
+    this.specs.clear();
+    this.scan = null;
+  }
+
+  private ensureScanned(): Promise<void> {
+    if (!this.scan) {
+      const scan = this.findFiles().then((uris) => {
+        for (const uri of uris) {
+          if (!this.specs.has(uri)) this.specs.set(uri, null);
+        }
+      });
+      // A failed scan is retried on next use
+      scan.catch(() => {
+        if (this.scan === scan) this.scan = null;
+      });
+      this.scan = scan;
+    }
+    return this.scan;
+  }
+}
@@ -0,0 +1,324 @@
+/**
+ * In-file Suppressions
+ *
+ * `x-restlens-ignore` vendor extensions silence rules on the node they are
+ * placed on and everything below it. Two forms are accepted:
+ *
+ *   x-restlens-ignore: [kebab-case-paths, plural-collection-names]
+ *
+ *   x-restlens-ignore:
+ *     rules: [kebab-case-paths]
+ *     reason: Kept for backwards compatibility
+ *
+ * The rule "*" silences every rule.
+ */
+
+import { Position, Range, TextEdit } from "vscode-languageserver/node";
+import { isMap, isScalar, isSeq, type Node, type YAMLMap } from "yaml";
+import type { ViolationKV } from "@restlens/lib";
+import {
+  insertEntryEdit,
+  isJsonText,
+  nearestMap,
+  offsetToPosition,
+  parseSpecAst,
+  pointerAt,
+  type SpecAst,
+} from "./ast";
+import type { ViolationKey } from "./api-client";
+
+export const SUPPRESSION_KEY = "x-restlens-ignore";
+
+/** Rule entry that silences every rule */
+export const ALL_RULES = "*";
+
+export interface Suppression {
+  /** Node the annotation is placed on */
+  pointer: string[];
+  rules: string[];
+  /** Pointer of each rule entry, parallel to `rules` */
+  rulePointers: string[][];
+  reason?: string;
+}
+
+/** Resolves a violation key to the pointer of the node it refers to */
+export type ViolationLocator = (key: ViolationKey) => string[] | null;
+
+// =============================================================================
+// Collection and Matching
+// =============================================================================
+
+/**
+ * Find every x-restlens-ignore annotation in a (bundled) spec.
+ */
+export function collectSuppressions(spec: unknown): Suppression[] {
+  const suppressions: Suppression[] = [];
+
+  function walk(node: unknown, pointer: string[]): void {
+    if (Array.isArray(node)) {
+      node.forEach((item, i) => walk(item, [...pointer, String(i)]));
+      return;
+    }
+    if (!node || typeof node !== "object") return;
+
+    for (const [key, value] of Object.entries(node as Record<string, unknown>)) {
+      if (key === SUPPRESSION_KEY) {
+        const suppression = readSuppression(value, pointer);
+        if (suppression) suppressions.push(suppression);
+      } else {
+        walk(value, [...pointer, key]);
+      }
+    }
+  }
+
+  walk(spec, []);
+  return suppressions;
+}
+
+function readSuppression(value: unknown, pointer: string[]): Suppression | null {
+  let list = value;
+  let listPointer = [...pointer, SUPPRESSION_KEY];
+  let reason: string | undefined;
+
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    list = record.rules;
+    listPointer = [...listPointer, "rules"];
+    reason = typeof record.reason === "string" ? record.reason : undefined;
+  }
+
+  if (typeof list === "string") {
+    return { pointer, rules: [list], rulePointers: [listPointer], reason };
+  }
+  if (!Array.isArray(list)) return null;
+
+  const rules: string[] = [];
+  const rulePointers: string[][] = [];
+  list.forEach((rule, i) => {
+    if (typeof rule === "string") {
+      rules.push(rule);
+      rulePointers.push([...listPointer, String(i)]);
+    }
+  });
+
+  return rules.length > 0 ? { pointer, rules, rulePointers, reason } : null;
+}
+
+/**
+ * The suppression covering a rule at a node, if any.
+ * Annotations apply to the node they are on and all of its descendants.
+ */
+export function findSuppression(suppressions: Suppression[], pointer: string[], ruleSlug: string | undefined): Suppression | null {
+  if (!ruleSlug) return null;
+  for (const suppression of suppressions) {
+    if (
+      (suppression.rules.includes(ruleSlug) || suppression.rules.includes(ALL_RULES)) &&
+      suppression.pointer.length <= pointer.length &&
+      suppression.pointer.every((segment, i) => pointer[i] === segment)
+    ) {
+      return suppression;
+    }
+  }
+  return null;
+}
+
+/**
+ * Drop violation messages that are suppressed in the spec.
+ */
+export function applySuppressions(
+  violations: ViolationKV[],
+  suppressions: Suppression[],
+  locate: ViolationLocator
+): ViolationKV[] {
+  if (suppressions.length === 0) return violations;
+
+  const result: ViolationKV[] = [];
+  for (const violation of violations) {
+    const pointer = locate(violation.key) ?? [];
+    const value = violation.value.filter((v) => !findSuppression(suppressions, pointer, v.rule_slug));
+    if (value.length > 0) {
+      result.push(value.length === violation.value.length ? violation : { ...violation, value });
+    }
+  }
+  return result;
+}
+
+/**
+ * Rule entries of suppressions that do not match any violation, as
+ * { slug, pointer } pairs where pointer is the rule entry in the spec.
+ */
+export function unusedSuppressions(
+  violations: ViolationKV[],
+  suppressions: Suppression[],
+  locate: ViolationLocator
+): { slug: string; pointer: string[] }[] {
+  if (suppressions.length === 0) return [];
+
+  const used = new Set<string>();
+  for (const violation of violations) {
+    const pointer = locate(violation.key) ?? [];
+    for (const v of violation.value) {
+      const suppression = findSuppression(suppressions, pointer, v.rule_slug);
+      if (suppression) {
+        const rule = suppression.rules.includes(v.rule_slug!) ? v.rule_slug : ALL_RULES;
+        used.add(`${suppressions.indexOf(suppression)}:${rule}`);
+      }
+    }
+  }
+
+  const unused: { slug: string; pointer: string[] }[] = [];
+  suppressions.forEach((suppression, index) => {
+    suppression.rules.forEach((slug, i) => {
+      if (!used.has(`${index}:${slug}`)) {
+        unused.push({ slug, pointer: suppression.rulePointers[i] });
+      }
+    });
+  });
+  return unused;
+}
+
+// =============================================================================
+// Inserting Annotations
+// =============================================================================
+
+/**
+ * Edit that adds a rule to the x-restlens-ignore annotation of the object
+ * at (or enclosing) a position, creating the annotation if needed.
+ * Returns null when there is nowhere to put it or the rule is already listed.
+ */
+export function suppressionEdit(text: string, position: Position, ruleSlug: string): TextEdit | null {
+  return suppressionEditAt(parseSpecAst(text), text, position, ruleSlug);
+}
+
+/**
+ * Edits suppressing a rule at each of the positions, parsing the document
+ * once. Positions on the same mapping share one edit.
+ */
+export function suppressionEdits(text: string, positions: Position[], ruleSlug: string): TextEdit[] {
+  const ast = parseSpecAst(text);
+  const edits = new Map<string, TextEdit>();
+  for (const position of positions) {
+    const edit = suppressionEditAt(ast, text, position, ruleSlug);
+    if (edit) edits.set(JSON.stringify(edit), edit);
+  }
+  return Array.from(edits.values());
+}
+
+/**
+ * Edit suppressing a rule, or every rule for ALL_RULES, in the whole
+ * document with an annotation at its root. A new annotation records the
+ * reason; an existing one gets the rule added to its list.
+ */
+export function fileSuppressionEdit(text: string, ruleSlug: string, reason: string): TextEdit | null {
+  const ast = parseSpecAst(text);
+  const root = ast.document.contents;
+  if (!isMap(root)) return null;
+
+  const quote = quoter(text);
+  const entry = `${quote(SUPPRESSION_KEY)}: {${quote("rules")}: [${quote(ruleSlug)}], ${quote("reason")}: ${JSON.stringify(reason)}}`;
+  return addRuleEdit(ast, text, root, ruleSlug, entry);
+}
+
+function suppressionEditAt(ast: SpecAst, text: string, position: Position, ruleSlug: string): TextEdit | null {
+  const target = nearestMap(ast, annotationOwner(pointerAt(ast, position)))?.map;
+  if (!target) return null;
+
+  const quote = quoter(text);
+  return addRuleEdit(ast, text, target, ruleSlug, `${quote(SUPPRESSION_KEY)}: [${quote(ruleSlug)}]`);
+}
+
+/**
+ * Edit adding a rule to the annotation of a mapping, or inserting `entry`
+ * when the mapping has none.
+ */
+function addRuleEdit(ast: SpecAst, text: string, target: YAMLMap, ruleSlug: string, entry: string): TextEdit | null {
+  const quote = quoter(text);
+
+  const existing = target.items.find((item) => isScalar(item.key) && item.key.value === SUPPRESSION_KEY);
+  if (!existing) {
+    return insertEntryEdit(ast, text, target, entry);
+  }
+
+  let list = existing.value as Node | null;
+  if (isMap(list)) {
+    list = list.get("rules", true) as Node | null;
+  }
+  if (isScalar(list) && list.range) {
+    if (list.value === ruleSlug) return null;
+    return {
+      range: offsetRange(ast, list.range[0], list.range[1]),
+      newText: `[${quote(String(list.value))}, ${quote(ruleSlug)}]`,
+    };
+  }
+  if (!isSeq(list) || list.items.length === 0) return null;
+  if (list.items.some((item) => isScalar(item) && item.value === ruleSlug)) return null;
+
+  const last = list.items[list.items.length - 1] as Node;
+  if (!last.range) return null;
+  if (list.flow) {
+    return { range: offsetRange(ast, last.range[1], last.range[1]), newText: `, ${quote(ruleSlug)}` };
+  }
+  const lastStart = offsetToPosition(ast, last.range[0]);
+  // Block sequence: the dash sits two columns before the item
+  const indent = " ".repeat(Math.max(lastStart.character - 2, 0));
+  return { range: offsetRange(ast, last.range[1], last.range[1]), newText: `\n${indent}- ${quote(ruleSlug)}` };
+}
+
+// Mappings keyed by names (properties, status codes, media types...): an
+// annotation in one would read as another entry, not as an extension
+const NAME_MAPS = new Set([
+  "paths",
+  "webhooks",
+  "properties",
+  "patternProperties",
+  "definitions",
+  "$defs",
+  "dependentSchemas",
+  "responses",
+  "content",
+  "headers",
+  "links",
+  "callbacks",
+  "examples",
+  "encoding",
+  "variables",
+  "mapping",
+  "scopes",
+]);
+
+// Values that are data rather than OpenAPI objects
+const DATA_KEYS = new Set(["example", "default", "enum", "const", "security"]);
+
+/**
+ * Pointer of the object an annotation for the node at `pointer` belongs
+ * on: the node itself when it is an OpenAPI object (schema, operation, path
+ * item, response, media type...), else its closest such ancestor.
+ */
+function annotationOwner(pointer: string[]): string[] {
+  let owner: string[] = [];
+  let inNameMap = false;
+  for (let i = 0; i < pointer.length; i++) {
+    const segment = pointer[i];
+    if (inNameMap) {
+      // Each entry of a name map is an object
+      inNameMap = false;
+    } else if (DATA_KEYS.has(segment) || segment.startsWith("x-")) {
+      break;
+    } else if (NAME_MAPS.has(segment) || (i === 1 && pointer[0] === "components")) {
+      inNameMap = true;
+      continue;
+    }
+    owner = pointer.slice(0, i + 1);
+  }
+  return owner;
+}
+
+// Rule slugs are plain YAML scalars, but "*" would start an alias
+function quoter(text: string): (value: string) => string {
+  const json = isJsonText(text);
+  return (value) => (json || !/^[\w-]+$/.test(value) ? JSON.stringify(value) : value);
+}
+
+function offsetRange(ast: SpecAst, start: number, end: number): Range {
+  return { start: offsetToPosition(ast, start), end: offsetToPosition(ast, end) };
+}
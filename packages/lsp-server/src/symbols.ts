@@ -0,0 +1,154 @@
+/**
+ * Symbols
+ *
+ * OpenAPI-aware document symbols for the outline and breadcrumbs: paths with
+ * their operations, and components grouped by kind. Workspace symbol search
+ * runs over the same symbols for every indexed spec.
+ */
+
+import { DocumentSymbol, Range, SymbolInformation, SymbolKind } from "vscode-languageserver/node";
+import { isMap, isScalar, type Node } from "yaml";
+import { nodeRange, offsetToPosition, type SpecAst } from "./ast";
+import { HTTP_METHODS } from "./diagnostics";
+import type { IndexedSpec } from "./spec-index";
+
+const COMPONENT_SYMBOL_KINDS: Record<string, SymbolKind> = {
+  schemas: SymbolKind.Struct,
+  parameters: SymbolKind.Field,
+  responses: SymbolKind.Interface,
+  requestBodies: SymbolKind.Interface,
+  headers: SymbolKind.Field,
+  securitySchemes: SymbolKind.Key,
+  examples: SymbolKind.Constant,
+  links: SymbolKind.Function,
+  callbacks: SymbolKind.Event,
+  pathItems: SymbolKind.Namespace,
+};
+
+const MAX_WORKSPACE_SYMBOLS = 500;
+
+interface Entry {
+  name: string;
+  key: Node;
+  value: Node | null;
+}
+
+// =============================================================================
+// Document Symbols
+// =============================================================================
+
+/**
+ * Outline of a spec.
+ */
+export function buildDocumentSymbols(ast: SpecAst): DocumentSymbol[] {
+  const root = ast.document.contents;
+  const symbols: DocumentSymbol[] = [];
+
+  for (const entry of entries(root)) {
+    if (entry.name === "paths") {
+      const paths = entries(entry.value).map((path) => pathSymbol(ast, path));
+      symbols.push(entrySymbol(ast, entry, SymbolKind.Module, paths));
+    } else if (entry.name === "components") {
+      const groups = entries(entry.value).map((group) => {
+        const kind = COMPONENT_SYMBOL_KINDS[group.name] ?? SymbolKind.Object;
+        const components = entries(group.value).map((component) => entrySymbol(ast, component, kind));
+        return entrySymbol(ast, group, SymbolKind.Module, components);
+      });
+      symbols.push(entrySymbol(ast, entry, SymbolKind.Module, groups));
+    }
+  }
+
+  return symbols;
+}
+
+function pathSymbol(ast: SpecAst, path: Entry): DocumentSymbol {
+  const operations: DocumentSymbol[] = [];
+  for (const entry of entries(path.value)) {
+    if (!HTTP_METHODS.includes(entry.name)) continue;
+    const operation = entrySymbol(ast, { ...entry, name: `${entry.name.toUpperCase()} ${path.name}` }, SymbolKind.Method);
+    const operationId = isMap(entry.value) ? entry.value.get("operationId") : undefined;
+    if (typeof operationId === "string") operation.detail = operationId;
+    operations.push(operation);
+  }
+  return entrySymbol(ast, path, SymbolKind.Namespace, operations);
+}
+
+function entrySymbol(ast: SpecAst, entry: Entry, kind: SymbolKind, children?: DocumentSymbol[]): DocumentSymbol {
+  const selectionRange = nodeRange(ast, entry.key) ?? emptyRange();
+  // The whole entry, from the key to the end of its value
+  const end = entry.value?.range ? offsetToPosition(ast, entry.value.range[1]) : selectionRange.end;
+  return {
+    name: entry.name,
+    kind,
+    range: { start: selectionRange.start, end },
+    selectionRange,
+    children,
+  };
+}
+
+function entries(node: unknown): Entry[] {
+  if (!isMap(node)) return [];
+  const result: Entry[] = [];
+  for (const item of node.items) {
+    if (isScalar(item.key) && item.key.value !== null && item.key.value !== undefined) {
+      result.push({ name: String(item.key.value), key: item.key, value: (item.value as Node | null) ?? null });
+    }
+  }
+  return result;
+}
+
+function emptyRange(): Range {
+  return { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+}
+
+// =============================================================================
+// Workspace Symbols
+// =============================================================================
+
+/**
+ * Paths, operations and components of every spec matching a query.
+ * Operations also match on their operationId.
+ */
+export function searchWorkspaceSymbols(specs: IndexedSpec[], query: string): SymbolInformation[] {
+  const results: SymbolInformation[] = [];
+
+  const visit = (uri: string, symbol: DocumentSymbol, containerName?: string) => {
+    // "paths", "components" and component kinds only group other symbols
+    const container = symbol.kind === SymbolKind.Module;
+    if (!container && (matchesQuery(symbol.name, query) || (symbol.detail && matchesQuery(symbol.detail, query)))) {
+      results.push({
+        name: symbol.name,
+        kind: symbol.kind,
+        location: { uri, range: symbol.selectionRange },
+        containerName: symbol.detail ?? containerName,
+      });
+    }
+    for (const child of symbol.children ?? []) {
+      visit(uri, child, symbol.name);
+    }
+  };
+
+  for (const spec of specs) {
+    for (const symbol of buildDocumentSymbols(spec.ast)) {
+      visit(spec.uri, symbol);
+    }
+    if (results.length >= MAX_WORKSPACE_SYMBOLS) break;
+  }
+
+  return results.slice(0, MAX_WORKSPACE_SYMBOLS);
+}
+
+/**
+ * Case-insensitive subsequence match, like the editor's own symbol filter.
+ */
+function matchesQuery(name: string, query: string): boolean {
+  const target = name.toLowerCase();
+  let index = 0;
+  for (const char of query.toLowerCase()) {
+    if (char === " ") continue;
+    index = target.indexOf(char, index);
+    if (index === -1) return false;
+    index++;
+  }
+  return true;
+}
@@ -0,0 +1,92 @@
+/**
+ * Workspace Scanning
+ *
+ * Finds OpenAPI files on disk and runs work over them with bounded concurrency.
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { CancellationToken } from "vscode-languageserver/node";
+import { isOpenAPIContent } from "@restlens/lib";
+
+const SPEC_EXTENSIONS = [".yaml", ".yml", ".json"];
+const EXCLUDED_DIRECTORIES = new Set(["node_modules", "dist", "out", "build", "coverage"]);
+const MAX_FILE_SIZE = 2 * 1024 * 1024; // 2 MB
+
+/**
+ * Find every OpenAPI file under the given workspace folders.
+ * Hidden and build/dependency directories are skipped.
+ */
+export async function findOpenAPIFiles(folderUris: string[], token?: CancellationToken): Promise<string[]> {
+  const found: string[] = [];
+
+  async function walk(directory: string): Promise<void> {
+    if (token?.isCancellationRequested) return;
+
+    let entries;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+      const fullPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!EXCLUDED_DIRECTORIES.has(entry.name)) {
+          await walk(fullPath);
+        }
+      } else if (entry.isFile() && SPEC_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+        if (await isOpenAPIFile(fullPath)) {
+          found.push(URI.file(fullPath).toString());
+        }
+      }
+    }
+  }
+
+  for (const folderUri of folderUris) {
+    await walk(URI.parse(folderUri).fsPath);
+  }
+
+  return found;
+}
+
+async function isOpenAPIFile(filePath: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(filePath);
+    if (stat.size > MAX_FILE_SIZE) return false;
+    return isOpenAPIContent(await fs.readFile(filePath, "utf8"));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Run a worker over items with at most `limit` running at once.
+ * Stops picking up new items once the token is cancelled.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  token?: CancellationToken
+): Promise<void> {
+  let next = 0;
+
+  async function run(): Promise<void> {
+    while (next < items.length && !token?.isCancellationRequested) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch {
+        // Errors are reported by the worker; keep going with the rest
+      }
+    }
+  }
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, () => run());
+  await Promise.all(runners);
+}
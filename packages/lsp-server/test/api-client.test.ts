@@ -0,0 +1,120 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { RestLensClient } from "../src/api-client";
+import { RequestPolicy } from "../src/request-policy";
+
+interface Received {
+  method?: string;
+  url?: string;
+  authorization?: string;
+  body: string;
+}
+
+describe("RestLensClient", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: Received[] = [];
+  let validToken = "fresh";
+  let status = 200;
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push({ method: request.method, url: request.url, authorization: request.headers.authorization, body });
+        if (request.headers.authorization !== `Bearer ${validToken}`) {
+          response.writeHead(401).end();
+        } else {
+          response.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify({ id: "ignore-1", ignores: [] }));
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    received = [];
+    validToken = "fresh";
+    status = 200;
+  });
+
+  function client(accessToken: string, onUnauthorized?: () => Promise<string | null>): RestLensClient {
+    return new RestLensClient({
+      baseUrl: `${baseUrl}/`,
+      accessToken,
+      orgSlug: "acme",
+      projectSlug: "user api",
+      logger: () => {},
+      policy: new RequestPolicy({ baseDelayMs: 1, maxDelayMs: 4 }),
+      onUnauthorized,
+    });
+  }
+
+  it("refreshes the token once on 401 and sends the request again", async () => {
+    let refreshes = 0;
+    const api = client("expired", async () => {
+      refreshes++;
+      return "fresh";
+    });
+
+    assert.deepEqual(await api.listIgnores(), []);
+    assert.equal(refreshes, 1);
+    assert.deepEqual(received.map((r) => r.authorization), ["Bearer expired", "Bearer fresh"]);
+
+    // The new token is kept for later requests
+    await api.listIgnores();
+    assert.equal(refreshes, 1);
+  });
+
+  it("reports the 401 when no token can be had", async () => {
+    const api = client("expired", async () => null);
+    await assert.rejects(api.listIgnores(), (error: { status?: number }) => error.status === 401);
+    assert.equal(received.length, 1);
+  });
+
+  it("does not refresh again when the new token is rejected too", async () => {
+    validToken = "never";
+    let refreshes = 0;
+    const api = client("expired", async () => {
+      refreshes++;
+      return "fresh";
+    });
+    await assert.rejects(api.listIgnores(), (error: { status?: number }) => error.status === 401);
+    assert.equal(refreshes, 1);
+    assert.equal(received.length, 2);
+  });
+
+  it("sends the waiver with a rule ignore to the project's rule", async () => {
+    const api = client("fresh");
+    const result = await api.addRuleIgnore(7, { path: "/users" }, { scope: "path", reason: "Legacy", expiresAt: "2027-01-01T00:00:00.000Z" });
+
+    assert.deepEqual(result, { id: "ignore-1", ignores: [] });
+    assert.equal(received[0].method, "POST");
+    assert.equal(received[0].url, "/api/projects/acme/user%20api/rules/7/ignores");
+    assert.deepEqual(JSON.parse(received[0].body), {
+      violationKey: { path: "/users" },
+      scope: "path",
+      reason: "Legacy",
+      expiresAt: "2027-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("removes rule ignores under their rule and treats a missing ignore as removed", async () => {
+    const api = client("fresh");
+    status = 404;
+    await api.removeIgnore("ignore-1", 7);
+    await api.removeIgnore("ignore-2");
+    assert.deepEqual(received.map((r) => `${r.method} ${r.url}`), [
+      "DELETE /api/projects/acme/user%20api/rules/7/ignores/ignore-1",
+      "DELETE /api/projects/acme/user%20api/ignores/ignore-2",
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ViolationKV } from "@restlens/lib";
+import {
+  baselineEntries,
+  entrySignature,
+  excludeBaseline,
+  parseBaselineFile,
+  serializeBaselineFile,
+  violationSignature,
+  violationSignatures,
+} from "../src/baseline";
+
+function violation(key: ViolationKV["key"], ...slugs: string[]): ViolationKV {
+  return {
+    key,
+    value: slugs.map((slug) => ({ message: `${slug} failed`, rule_id: 0, rule_slug: slug, severity: "warning" })),
+  } as ViolationKV;
+}
+
+describe("violationSignature", () => {
+  it("identifies violations by location and rule", () => {
+    const key = { path: "/users", operation_id: "listUsers" };
+    assert.equal(violationSignature(key, "kebab-case-paths"), violationSignature({ ...key }, "kebab-case-paths"));
+    assert.notEqual(violationSignature(key, "kebab-case-paths"), violationSignature(key, "plural-collection-names"));
+    assert.notEqual(violationSignature(key, "kebab-case-paths"), violationSignature({ path: "/users" }, "kebab-case-paths"));
+  });
+
+  it("treats numeric and string status codes alike", () => {
+    assert.equal(
+      violationSignature({ path: "/users", http_code: 404 } as never, "error-schema"),
+      violationSignature({ path: "/users", http_code: "404" }, "error-schema")
+    );
+  });
+});
+
+describe("excludeBaseline", () => {
+  it("drops baselined messages and counts them", () => {
+    const violations = [
+      violation({ path: "/users" }, "kebab-case-paths", "plural-collection-names"),
+      violation({ path: "/orders" }, "kebab-case-paths"),
+    ];
+    const baseline = new Set([
+      violationSignature({ path: "/users" }, "kebab-case-paths"),
+      violationSignature({ path: "/orders" }, "kebab-case-paths"),
+    ]);
+
+    const result = excludeBaseline(violations, baseline);
+    assert.equal(result.hidden, 2);
+    assert.deepEqual(
+      result.violations.map((v) => [v.key.path, v.value.map((message) => message.rule_slug)]),
+      [["/users", ["plural-collection-names"]]]
+    );
+  });
+
+  it("keeps everything for an empty baseline", () => {
+    const violations = [violation({ path: "/users" }, "kebab-case-paths")];
+    assert.deepEqual(excludeBaseline(violations, new Set()), { violations, hidden: 0 });
+  });
+
+  it("matches signatures of the same violations", () => {
+    const violations = [violation({ path: "/users", schema_path: "User.name" }, "camel-case-properties")];
+    assert.equal(excludeBaseline(violations, violationSignatures(violations)).violations.length, 0);
+  });
+});
+
+describe("baseline file", () => {
+  it("records one entry per location and rule", () => {
+    const entries = baselineEntries([
+      violation({ path: "/users", http_code: "200" }, "kebab-case-paths", "kebab-case-paths"),
+      violation({ path: "/users", http_code: "200" }, "kebab-case-paths"),
+    ]);
+    assert.deepEqual(entries, [{ rule: "kebab-case-paths", path: "/users", http_code: "200" }]);
+    assert.equal(entrySignature(entries[0]), violationSignature({ path: "/users", http_code: "200" }, "kebab-case-paths"));
+  });
+
+  it("serializes sorted, without empty specs", () => {
+    const text = serializeBaselineFile({
+      version: 1,
+      specs: {
+        "specs/orders.yaml": [],
+        "specs/users.yaml": [{ rule: "kebab-case-paths", path: "/userAccounts" }, { rule: "plural-collection-names", path: "/user" }],
+      },
+    });
+
+    assert.deepEqual(JSON.parse(text), {
+      version: 1,
+      specs: {
+        "specs/users.yaml": [{ rule: "plural-collection-names", path: "/user" }, { rule: "kebab-case-paths", path: "/userAccounts" }],
+      },
+    });
+    assert.ok(text.endsWith("\n"));
+  });
+
+  it("round-trips through parse", () => {
+    const file = { version: 1 as const, specs: { "api.yaml": [{ rule: "kebab-case-paths", path: "/userAccounts" }] } };
+    assert.deepEqual(parseBaselineFile(serializeBaselineFile(file)), file);
+  });
+
+  it("rejects malformed files and skips malformed entries", () => {
+    assert.equal(parseBaselineFile("{"), null);
+    assert.equal(parseBaselineFile('{"specs": []}'), null);
+    assert.deepEqual(parseBaselineFile('{"specs": {"a.yaml": [{"rule": "r"}, {"path": "/x"}, null], "b.yaml": "x"}}'), {
+      version: 1,
+      specs: { "a.yaml": [{ rule: "r" }] },
+    });
+  });
+});
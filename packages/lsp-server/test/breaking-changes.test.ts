@@ -0,0 +1,162 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectBreakingChanges } from "../src/breaking-changes";
+
+/** A spec with one operation: POST /users taking In and returning Out */
+function spec(schemas: Record<string, object>, operation: object = {}): object {
+  return {
+    openapi: "3.0.3",
+    info: { title: "Users", version: "1" },
+    paths: {
+      "/users": {
+        post: {
+          requestBody: { content: { "application/json": { schema: { $ref: "#/components/schemas/In" } } } },
+          responses: {
+            "201": { description: "Created", content: { "application/json": { schema: { $ref: "#/components/schemas/Out" } } } },
+          },
+          ...operation,
+        },
+      },
+    },
+    components: { schemas },
+  };
+}
+
+const user = { type: "object", properties: { id: { type: "string" }, name: { type: "string" } } };
+
+describe("detectBreakingChanges", () => {
+  it("reports nothing for identical specs", () => {
+    const previous = spec({ In: user, Out: user });
+    assert.deepEqual(detectBreakingChanges(previous, previous), []);
+  });
+
+  it("reports removed operations and responses", () => {
+    const previous = spec({ In: user, Out: user });
+    const withoutResponse = spec({ In: user, Out: user }, { responses: { "200": { description: "OK" } } });
+
+    assert.deepEqual(
+      detectBreakingChanges(withoutResponse, { paths: { "/users": {} } }).map((change) => [change.kind, change.pointer]),
+      [["operation-removed", ["paths", "/users"]]]
+    );
+    assert.deepEqual(
+      detectBreakingChanges(previous, withoutResponse).map((change) => change.message),
+      ["Response 201 of POST /users was removed"]
+    );
+  });
+
+  it("reports new required parameters", () => {
+    const parameter = { name: "dryRun", in: "query", schema: { type: "boolean" } };
+    const previous = spec({ In: user, Out: user }, { parameters: [parameter] });
+    const current = spec({ In: user, Out: user }, {
+      parameters: [{ ...parameter, required: true }, { name: "tenant", in: "header", required: true }],
+    });
+
+    assert.deepEqual(
+      detectBreakingChanges(previous, current).map((change) => [change.kind, change.message]),
+      [
+        ["parameter-required", "Query parameter 'dryRun' of POST /users is now required"],
+        ["parameter-required", "New required header parameter 'tenant' in POST /users"],
+      ]
+    );
+  });
+
+  it("reports properties that became required in request schemas", () => {
+    const current = { ...user, required: ["name"] };
+    const changes = detectBreakingChanges(spec({ In: user, Out: user }), spec({ In: current, Out: user }));
+
+    assert.deepEqual(changes, [
+      {
+        kind: "property-required",
+        pointer: ["components", "schemas", "In", "properties", "name"],
+        message: "Property 'name' of In is now required",
+      },
+    ]);
+  });
+
+  it("reports new required properties in request schemas", () => {
+    const current = { ...user, properties: { ...user.properties, email: { type: "string" } }, required: ["email"] };
+    const changes = detectBreakingChanges(spec({ In: user, Out: user }), spec({ In: current, Out: user }));
+
+    assert.deepEqual(changes.map((change) => change.message), ["New required property 'email' in In"]);
+  });
+
+  it("ignores new required properties in response-only schemas", () => {
+    const current = { ...user, required: ["id"] };
+    assert.deepEqual(detectBreakingChanges(spec({ In: user, Out: user }), spec({ In: user, Out: current })), []);
+  });
+
+  it("follows $refs between components to find where a schema is used", () => {
+    const wrapper = (item: string) => ({ type: "object", properties: { user: { $ref: `#/components/schemas/${item}` } } });
+    const previous = spec({ In: wrapper("User"), Out: wrapper("Account"), User: user, Account: user });
+    const current = spec({
+      In: wrapper("User"),
+      Out: wrapper("Account"),
+      User: { ...user, required: ["id"] },
+      Account: { ...user, required: ["id"] },
+    });
+
+    assert.deepEqual(
+      detectBreakingChanges(previous, current).map((change) => change.pointer),
+      [["components", "schemas", "User", "properties", "id"]]
+    );
+  });
+
+  it("treats schemas used on both sides as requests", () => {
+    const current = { ...user, required: ["id"] };
+    const changes = detectBreakingChanges(spec({ In: user, Out: user }, {
+      responses: { "200": { description: "OK", content: { "application/json": { schema: { $ref: "#/components/schemas/In" } } } } },
+    }), spec({ In: current, Out: user }, {
+      responses: { "200": { description: "OK", content: { "application/json": { schema: { $ref: "#/components/schemas/In" } } } } },
+    }));
+
+    assert.deepEqual(changes.map((change) => change.kind), ["property-required"]);
+  });
+
+  it("reports removed required properties, type changes and widened enums in responses", () => {
+    const previous = {
+      type: "object",
+      required: ["id"],
+      properties: {
+        id: { type: "string" },
+        status: { type: "string", enum: ["active", "disabled"] },
+        role: { type: "string", enum: ["admin", "member"] },
+        age: { type: "integer" },
+      },
+    };
+    const current = {
+      type: "object",
+      required: [],
+      properties: {
+        status: { type: "string", enum: ["active", "disabled", "locked"] },
+        role: { type: "string", enum: ["admin"] },
+        age: { type: "string" },
+      },
+    };
+
+    assert.deepEqual(
+      detectBreakingChanges(spec({ In: user, Out: previous }), spec({ In: user, Out: current })).map((change) => change.message),
+      [
+        "Required property 'id' of Out was removed or renamed",
+        "Enum value locked added to property 'status' of Out",
+        "Type of property 'age' of Out changed from integer to string",
+      ]
+    );
+  });
+
+  it("reports narrowed enums in requests only", () => {
+    const previous = { type: "object", properties: { role: { type: "string", enum: ["admin", "member"] }, note: { type: "string" } } };
+    const current = {
+      type: "object",
+      properties: { role: { type: "string", enum: ["admin", "member", "guest"] }, note: { type: "string", enum: ["none"] } },
+    };
+
+    assert.deepEqual(
+      detectBreakingChanges(spec({ In: previous, Out: user }), spec({ In: current, Out: user })).map((change) => change.message),
+      ["Values of property 'note' of In are now restricted to none"]
+    );
+    assert.deepEqual(
+      detectBreakingChanges(spec({ In: current, Out: user }), spec({ In: previous, Out: user })).map((change) => change.message),
+      ["Enum value guest removed from property 'role' of In"]
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ViolationKV } from "@restlens/lib";
+import { DiagnosticsCache, type CacheScope } from "../src/cache";
+
+const SCOPE: CacheScope = { apiUrl: "https://restlens.com", organization: "acme", project: "users" };
+
+const VIOLATIONS = [{
+  key: { path: "/users" },
+  value: [
+    { message: "Missing 4xx response", rule_id: 1, rule_slug: "require-4xx-response", severity: "warning" },
+    { message: "Consider pagination", rule_id: 2, rule_slug: "paginate-collections", severity: "info" },
+  ],
+}] as ViolationKV[];
+
+describe("DiagnosticsCache", () => {
+  it("returns raw violations, info severity included, for the same content and scope", () => {
+    const cache = new DiagnosticsCache();
+    cache.set("openapi: 3.0.3", SCOPE, VIOLATIONS);
+    assert.deepEqual(cache.get("openapi: 3.0.3", SCOPE), VIOLATIONS);
+    assert.equal(cache.get("openapi: 3.1.0", SCOPE), null);
+  });
+
+  it("keeps projects, organizations and API URLs apart", () => {
+    const cache = new DiagnosticsCache();
+    cache.set("openapi: 3.0.3", SCOPE, VIOLATIONS);
+    assert.equal(cache.get("openapi: 3.0.3", { ...SCOPE, project: "orders" }), null);
+    assert.equal(cache.get("openapi: 3.0.3", { ...SCOPE, organization: "other" }), null);
+    assert.equal(cache.get("openapi: 3.0.3", { ...SCOPE, apiUrl: "https://staging.restlens.com" }), null);
+  });
+
+  it("does not mistake fields that run into each other for the same scope", () => {
+    const cache = new DiagnosticsCache();
+    cache.set("spec", { ...SCOPE, organization: "ac", project: "meusers" }, VIOLATIONS);
+    assert.equal(cache.get("spec", SCOPE), null);
+  });
+
+  it("forgets everything on clear", () => {
+    const cache = new DiagnosticsCache();
+    cache.set("spec", SCOPE, VIOLATIONS);
+    cache.clear();
+    assert.equal(cache.get("spec", SCOPE), null);
+  });
+
+  it("gives identical diagnostics the same result id", () => {
+    const cache = new DiagnosticsCache();
+    const diagnostic = { range: { start: { line: 1, character: 0 }, end: { line: 1, character: 4 } }, message: "Missing 4xx response" };
+    assert.equal(cache.resultId([diagnostic]), cache.resultId([{ ...diagnostic }]));
+    assert.notEqual(cache.resultId([diagnostic]), cache.resultId([]));
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import type { ViolationKey } from "../src/api-client";
+import { buildCodeLenses, SHOW_VIOLATIONS_COMMAND, type LensViolation } from "../src/code-lens";
+
+const text = [
+  "openapi: 3.0.3",
+  "paths:",
+  "  /users:",
+  "    get:",
+  "      operationId: listUsers",
+  "      responses:",
+  "        '200': {description: OK}",
+  "    post:",
+  "      operationId: createUser",
+  "  /teams:",
+  "    get:",
+  "      operationId: listTeams",
+  "",
+].join("\n");
+
+function violation(key: ViolationKey, severity: DiagnosticSeverity, line = 0): LensViolation {
+  return {
+    uri: "file:///api.yaml",
+    key,
+    ruleSlug: "some-rule",
+    diagnostic: {
+      range: { start: { line, character: 0 }, end: { line, character: 1 } },
+      message: `Violation at ${line}`,
+      severity,
+    },
+  };
+}
+
+describe("buildCodeLenses", () => {
+  it("counts violations per path item and operation by their key", () => {
+    const lenses = buildCodeLenses(text, [
+      violation({ path: "/users", operation_id: "listUsers" }, DiagnosticSeverity.Error),
+      violation({ path: "/users", operation_id: "listUsers", http_code: "200" }, DiagnosticSeverity.Warning),
+      violation({ path: "/users" }, DiagnosticSeverity.Information),
+      violation({ path: "/users", operation_id: "createUser" }, DiagnosticSeverity.Warning),
+      violation({ path: "/users", operation_id: "createUser" }, DiagnosticSeverity.Warning),
+    ]);
+
+    assert.deepEqual(lenses.map((lens) => [lens.range.start.line, lens.command?.title]), [
+      [2, "1 error · 3 warnings · 1 info — REST Lens"],
+      [3, "1 error · 1 warning — REST Lens"],
+      [7, "2 warnings — REST Lens"],
+    ]);
+  });
+
+  it("opens the list of violations behind a lens", () => {
+    const [lens] = buildCodeLenses(text, [violation({ path: "/teams" }, DiagnosticSeverity.Warning, 9)]);
+    assert.equal(lens.command?.command, SHOW_VIOLATIONS_COMMAND);
+    assert.deepEqual(lens.command?.arguments, ["/teams", [{
+      uri: "file:///api.yaml",
+      range: { start: { line: 9, character: 0 }, end: { line: 9, character: 1 } },
+      message: "Violation at 9",
+      severity: DiagnosticSeverity.Warning,
+      ruleSlug: "some-rule",
+    }]]);
+  });
+
+  it("counts findings on nodes that are gone toward their operation", () => {
+    const lenses = buildCodeLenses(text, [
+      violation({ path: "/teams", operation_id: "listTeams", http_code: "404" }, DiagnosticSeverity.Warning),
+    ]);
+    assert.deepEqual(lenses.map((lens) => lens.range.start.line), [9, 10]);
+  });
+
+  it("shows nothing for clean operations or unknown paths", () => {
+    assert.deepEqual(buildCodeLenses(text, []), []);
+    assert.deepEqual(buildCodeLenses(text, [violation({ path: "/orders" }, DiagnosticSeverity.Error)]), []);
+  });
+});
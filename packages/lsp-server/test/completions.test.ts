@@ -0,0 +1,108 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import type { CompletionItem, Position } from "vscode-languageserver/node";
+import { getCompletions } from "../src/completions";
+
+const URI_IN_MEMORY = "untitled:api.yaml";
+
+/** Completions where the document has "|", with the marker removed */
+async function completeAt(text: string, uri = URI_IN_MEMORY): Promise<CompletionItem[]> {
+  const lines = text.split("\n");
+  const line = lines.findIndex((l) => l.includes("|"));
+  const position: Position = { line, character: lines[line].indexOf("|") };
+  return getCompletions(uri, text.replace("|", ""), position);
+}
+
+function newTexts(items: CompletionItem[]): string[] {
+  return items.map((item) => (item.textEdit && "newText" in item.textEdit ? item.textEdit.newText : item.label));
+}
+
+const components = [
+  "components:",
+  "  schemas:",
+  "    User: {type: object}",
+  "  responses:",
+  "    NotFound: {description: Not found}",
+  "  securitySchemes:",
+  "    oauth: {type: oauth2}",
+  "    apiKey: {type: apiKey, in: header, name: X-Key}",
+].join("\n");
+
+describe("getCompletions", () => {
+  it("offers the document's components as $ref targets, quoted in YAML", async () => {
+    const items = await completeAt(`paths:\n  /users:\n    get:\n      responses:\n        '200': {$ref: |}\n${components}`);
+    assert.deepEqual(newTexts(items), ["'#/components/schemas/User'", "'#/components/responses/NotFound'"]);
+  });
+
+  it("replaces what was typed of a quoted $ref", async () => {
+    const [item] = await completeAt(`schema:\n  $ref: "#/components/sch|"\n${components}`);
+    assert.deepEqual(item.textEdit, {
+      range: { start: { line: 1, character: 9 }, end: { line: 1, character: 25 } },
+      newText: "#/components/schemas/User",
+    });
+  });
+
+  it("offers status codes under responses", async () => {
+    const items = await completeAt("paths:\n  /users:\n    get:\n      responses:\n        4|");
+    const notFound = items.find((item) => item.label === "404");
+    assert.equal(notFound?.detail, "Not Found");
+    assert.deepEqual(notFound?.textEdit, {
+      range: { start: { line: 4, character: 8 }, end: { line: 4, character: 9 } },
+      newText: '"404":',
+    });
+  });
+
+  it("offers media types under content", async () => {
+    const items = await completeAt("requestBody:\n  content:\n    |");
+    assert.ok(newTexts(items).includes("application/json:"));
+    assert.ok(newTexts(items).includes('"*/*":'));
+  });
+
+  it("offers the declared security schemes in security requirements", async () => {
+    const items = await completeAt(`security:\n  - |\n${components}`);
+    assert.deepEqual(newTexts(items), ["oauth: []", "apiKey: []"]);
+  });
+
+  it("reads the context of JSON documents from their brackets", async () => {
+    const items = await completeAt('{"paths": {"/users": {"get": {"summary": "List users", "responses": {"2|');
+    assert.equal(newTexts(items).find((text) => text.startsWith('"201"')), '"201": {}');
+  });
+
+  it("offers nothing elsewhere", async () => {
+    assert.deepEqual(await completeAt("info:\n  title: |"), []);
+    assert.deepEqual(await completeAt("paths:\n  /users:\n    |"), []);
+  });
+});
+
+describe("getCompletions for file $refs", () => {
+  let root: string;
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "restlens-completions-"));
+    await fs.mkdir(path.join(root, "schemas"));
+    await fs.writeFile(path.join(root, "api.yaml"), "");
+    await fs.writeFile(path.join(root, "common.yaml"), "");
+    await fs.writeFile(path.join(root, "notes.md"), "");
+    await fs.writeFile(path.join(root, "schemas", "user.json"), "");
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("offers spec files and folders next to the document, except itself", async () => {
+    const uri = URI.file(path.join(root, "api.yaml")).toString();
+    const items = await completeAt("schema:\n  $ref: |", uri);
+    assert.deepEqual(newTexts(items).sort(), ["common.yaml", "schemas/"]);
+  });
+
+  it("completes inside the folder typed so far", async () => {
+    const uri = URI.file(path.join(root, "api.yaml")).toString();
+    const items = await completeAt("schema:\n  $ref: './schemas/|'", uri);
+    assert.deepEqual(newTexts(items), ["./schemas/user.json"]);
+  });
+});
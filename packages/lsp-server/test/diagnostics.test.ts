@@ -0,0 +1,109 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import type { ViolationKV } from "@restlens/lib";
+import { violationPointer, violationsToDiagnostics } from "../src/diagnostics";
+
+const spec = {
+  paths: {
+    "/users": {
+      get: {
+        operationId: "listUsers",
+        responses: {
+          "200": {
+            content: {
+              "application/vnd.api+json": { schema: { properties: { data: { type: "array" } } } },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      "v1.User": { properties: { id: { type: "string" } } },
+    },
+  },
+};
+
+describe("violationPointer", () => {
+  it("resolves each part of the key", () => {
+    assert.deepEqual(violationPointer({ path: "/users" }, spec), ["paths", "/users"]);
+    assert.deepEqual(violationPointer({ path: "/users", operation_id: "listUsers" }, spec), ["paths", "/users", "get"]);
+    assert.deepEqual(violationPointer({ operation_id: "listUsers", http_code: "200" }, spec), [
+      "paths",
+      "/users",
+      "get",
+      "responses",
+      "200",
+    ]);
+  });
+
+  it("keeps keys that contain dots whole", () => {
+    assert.deepEqual(
+      violationPointer(
+        { operation_id: "listUsers", http_code: "200", schema_path: "content.application/vnd.api+json.schema.properties.data" },
+        spec
+      ),
+      ["paths", "/users", "get", "responses", "200", "content", "application/vnd.api+json", "schema", "properties", "data"]
+    );
+    assert.deepEqual(violationPointer({ schema_path: "v1.User.properties.id" }, spec), [
+      "components",
+      "schemas",
+      "v1.User",
+      "properties",
+      "id",
+    ]);
+  });
+
+  it("accepts schema paths given as JSON pointers", () => {
+    assert.deepEqual(violationPointer({ schema_path: "#/components/schemas/v1.User" }, spec), ["components", "schemas", "v1.User"]);
+  });
+
+  it("returns null unless the whole key resolves", () => {
+    assert.equal(violationPointer({ path: "/orders" }, spec), null);
+    assert.equal(violationPointer({ path: "/users", operation_id: "createUser" }, spec), null);
+    assert.equal(violationPointer({ operation_id: "listUsers", http_code: "404" }, spec), null);
+    assert.equal(violationPointer({ operation_id: "listUsers", schema_path: "responses.200.content.text/plain" }, spec), null);
+    assert.equal(violationPointer({}, spec), null);
+  });
+});
+
+describe("violationsToDiagnostics", () => {
+  const text = [
+    "openapi: 3.0.3",
+    "paths:",
+    "  /users:",
+    "    get:",
+    "      operationId: listUsers",
+    "      responses:",
+    "        '200': {description: OK}",
+  ].join("\n");
+  const document = TextDocument.create("file:///api.yaml", "yaml", 1, text);
+
+  const violations = [{
+    key: { path: "/users", operation_id: "listUsers" },
+    value: [
+      { message: "Missing 4xx response", rule_id: 1, rule_slug: "require-4xx-response", severity: "warning" },
+      { message: "Consider pagination", rule_id: 2, rule_slug: "paginate-collections", severity: "info" },
+    ],
+  }] as ViolationKV[];
+
+  it("filters info severity when converting, so the same violations serve both settings", () => {
+    const withInfo = violationsToDiagnostics(violations, document, true);
+    const withoutInfo = violationsToDiagnostics(violations, document, false);
+
+    assert.deepEqual(withInfo.map((d) => [d.code, d.severity]), [
+      ["require-4xx-response", DiagnosticSeverity.Warning],
+      ["paginate-collections", DiagnosticSeverity.Information],
+    ]);
+    assert.deepEqual(withoutInfo.map((d) => d.code), ["require-4xx-response"]);
+  });
+
+  it("places diagnostics on the node the key resolves to", () => {
+    const [diagnostic] = violationsToDiagnostics(violations, document, false);
+    assert.deepEqual(diagnostic.range.start, { line: 3, character: 4 });
+    assert.equal(diagnostic.message, "Missing 4xx response");
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import type { Position } from "vscode-languageserver/node";
+import { applicableSpecFixes, fillInPosition, getSpecFix, getSpecFixes } from "../src/fixes";
+
+const text = [
+  "openapi: 3.0.3",
+  "info: {title: Users, version: '1'}",
+  "paths:",
+  "  /userAccounts:",
+  "    get:",
+  "      responses:",
+  "        '200': {description: OK}",
+  "  /orders:",
+  "    get:",
+  "      operationId: listOrders",
+  "      description: Orders",
+  "      responses:",
+  "        '404': {description: Not found}",
+  "",
+].join("\n");
+
+const userAccounts: Position = { line: 3, character: 2 };
+const getUserAccounts: Position = { line: 4, character: 4 };
+const getOrders: Position = { line: 8, character: 4 };
+
+function apply(source: string, edits: { range: { start: Position; end: Position }; newText: string }[]): string {
+  return TextDocument.applyEdits(TextDocument.create("file:///api.yaml", "yaml", 1, source), edits);
+}
+
+describe("applicableSpecFixes", () => {
+  it("lists the fixes that apply without computing them", () => {
+    const fixes = applicableSpecFixes(text, [
+      { ruleSlug: "kebab-case-paths", position: userAccounts },
+      { ruleSlug: "operation-id-required", position: getUserAccounts },
+      { ruleSlug: "operation-id-required", position: getOrders },
+      { ruleSlug: "require-4xx-response", position: getOrders },
+      { ruleSlug: "description-required", position: getUserAccounts },
+      { ruleSlug: "no-such-rule", position: getUserAccounts },
+    ]);
+    assert.deepEqual(fixes, [
+      { title: "Rename path to kebab-case", fillIn: undefined },
+      { title: "Add an operationId", fillIn: undefined },
+      null,
+      null,
+      { title: "Add a description", fillIn: "description" },
+      null,
+    ]);
+  });
+
+  it("lists nothing for a document that doesn't parse", () => {
+    assert.deepEqual(applicableSpecFixes("paths: [", [{ ruleSlug: "kebab-case-paths", position: userAccounts }]), [null]);
+  });
+});
+
+describe("getSpecFix", () => {
+  it("adds a unique operationId", () => {
+    const fix = getSpecFix("operation-id-required", text, getUserAccounts);
+    assert.equal(fix?.title, 'Add operationId "getUserAccounts"');
+    assert.match(apply(text, fix!.edits), /    get:\n      operationId: getUserAccounts\n      responses:/);
+  });
+
+  it("adds a 400 response next to the others", () => {
+    const fix = getSpecFix("require-4xx-response", text, getUserAccounts);
+    assert.match(apply(text, fix!.edits), /      responses:\n        "400":\n          description: Bad request\n        '200'/);
+  });
+
+  it("inserts an empty description to fill in", () => {
+    const fix = getSpecFix("description-required", text, getUserAccounts);
+    assert.equal(fix?.fillIn, "description");
+    const fixed = apply(text, fix!.edits);
+    assert.deepEqual(fillInPosition(fixed, getUserAccounts, "description"), { line: 5, character: 20 });
+  });
+
+  it("renames a path and records the move", () => {
+    const fix = getSpecFix("kebab-case-paths", text, userAccounts);
+    assert.equal(fix?.title, "Rename path to /user-accounts");
+    assert.deepEqual(fix?.moved, { from: ["paths", "/userAccounts"], to: ["paths", "/user-accounts"] });
+    assert.match(apply(text, fix!.edits), /^  \/user-accounts:$/m);
+  });
+
+  it("retargets the document's references into a renamed path", () => {
+    const source = [
+      "paths:",
+      "  /userAccounts/{id}:",
+      "    get:",
+      "      operationId: getUserAccount",
+      "      responses:",
+      "        '200':",
+      "          description: OK",
+      "          links:",
+      "            self: {operationRef: '#/paths/~1userAccounts~1{id}/get'}",
+      "  /teams:",
+      "    get:",
+      "      responses:",
+      "        '200': {$ref: '#/paths/~1userAccounts~1{id}/get/responses/200'}",
+      "  /userAccountsArchive:",
+      "    $ref: '#/paths/~1userAccountsArchive'",
+      "",
+    ].join("\n");
+    const fixed = apply(source, getSpecFix("kebab-case-paths", source, { line: 1, character: 2 })!.edits);
+    assert.match(fixed, /^  \/user-accounts\/\{id\}:$/m);
+    assert.match(fixed, /self: \{operationRef: '#\/paths\/~1user-accounts~1\{id\}\/get'\}/);
+    assert.match(fixed, /'200': \{\$ref: '#\/paths\/~1user-accounts~1\{id\}\/get\/responses\/200'\}/);
+    assert.match(fixed, /\$ref: '#\/paths\/~1userAccountsArchive'/);
+  });
+
+  it("pluralizes collection names followed by a parameter", () => {
+    const source = "paths:\n  /category/{id}/box/{boxId}/status:\n    get: {}\n";
+    const fix = getSpecFix("plural-collection-names", source, { line: 1, character: 2 });
+    assert.equal(fix?.title, "Pluralize path to /categories/{id}/boxes/{boxId}/status");
+  });
+
+  it("does not rename a path onto one that exists", () => {
+    const source = "paths:\n  /userAccounts: {}\n  /user-accounts: {}\n";
+    assert.equal(getSpecFix("kebab-case-paths", source, { line: 1, character: 2 }), null);
+  });
+
+  it("writes JSON in JSON specs", () => {
+    const source = '{\n  "paths": {\n    "/users": {\n      "get": {\n        "responses": {}\n      }\n    }\n  }\n}\n';
+    const fixed = apply(source, getSpecFix("operation-id-required", source, { line: 3, character: 6 })!.edits);
+    assert.deepEqual(JSON.parse(fixed).paths["/users"].get, { responses: {}, operationId: "getUsers" });
+  });
+
+  it("returns null when the fix no longer applies", () => {
+    const renamed = text.replace("/userAccounts", "/user-accounts");
+    assert.equal(getSpecFix("kebab-case-paths", renamed, userAccounts), null);
+    assert.equal(getSpecFix("operation-id-required", text, getOrders), null);
+  });
+});
+
+describe("getSpecFixes", () => {
+  it("leaves path renames out", () => {
+    const fixes = getSpecFixes(text, [
+      { ruleSlug: "kebab-case-paths", position: userAccounts },
+      { ruleSlug: "operation-id-required", position: getUserAccounts },
+    ]);
+    assert.deepEqual(fixes.map((fix) => fix.title), ['Add operationId "getUserAccounts"']);
+  });
+});
@@ -0,0 +1,65 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { resolveRevision, showFileAtRevision } from "../src/git";
+
+describe("git", () => {
+  let root: string;
+  let spec: string;
+  const commits: Record<string, string> = {};
+
+  function git(...args: string[]): string {
+    return execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], { cwd: root, encoding: "utf8" }).trim();
+  }
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "restlens-git-"));
+    await fs.mkdir(path.join(root, "specs"));
+    const file = path.join(root, "specs", "api.yaml");
+    spec = URI.file(file).toString();
+
+    git("init", "--quiet", "--initial-branch=main");
+    await fs.writeFile(file, "openapi: 3.0.3\n");
+    git("add", ".");
+    git("commit", "--quiet", "-m", "First");
+    commits.first = git("rev-parse", "HEAD");
+
+    git("checkout", "--quiet", "-b", "feature");
+    await fs.writeFile(file, "openapi: 3.1.0\n");
+    git("commit", "--quiet", "-am", "Feature");
+    commits.feature = git("rev-parse", "HEAD");
+
+    git("checkout", "--quiet", "main");
+    await fs.writeFile(path.join(root, "specs", "other.yaml"), "openapi: 3.0.3\n");
+    git("add", ".");
+    git("commit", "--quiet", "-m", "Main");
+    commits.main = git("rev-parse", "HEAD");
+    git("checkout", "--quiet", "feature");
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("resolves refs to commits, or to their merge-base with HEAD", async () => {
+    assert.equal(await resolveRevision(spec, "HEAD", false), commits.feature);
+    assert.equal(await resolveRevision(spec, "main", false), commits.main);
+    assert.equal(await resolveRevision(spec, "main", true), commits.first);
+  });
+
+  it("resolves nothing for unknown refs, option-like refs or files outside a repository", async () => {
+    assert.equal(await resolveRevision(spec, "no-such-branch", false), null);
+    assert.equal(await resolveRevision(spec, "--all", false), null);
+    assert.equal(await resolveRevision(URI.file(path.join(os.tmpdir(), "api.yaml")).toString(), "HEAD", false), null);
+  });
+
+  it("reads a file as it was at a revision", async () => {
+    assert.equal(await showFileAtRevision(spec, commits.first), "openapi: 3.0.3\n");
+    assert.equal(await showFileAtRevision(spec, commits.feature), "openapi: 3.1.0\n");
+    assert.equal(await showFileAtRevision(URI.file(path.join(root, "specs", "other.yaml")).toString(), commits.first), null);
+  });
+});
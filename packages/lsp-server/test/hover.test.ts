@@ -0,0 +1,106 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MarkupKind } from "vscode-languageserver/node";
+import type { RestLensClient, RuleDocumentation } from "../src/api-client";
+import { formatRuleHover, RuleDocsCache, toMarkup } from "../src/hover";
+
+const DOCS: RuleDocumentation = {
+  id: 7,
+  slug: "kebab-case-paths",
+  name: "Path segments must be kebab-case",
+  rationale: "URLs are case-sensitive.",
+  badExample: "/userAccounts\n",
+  goodExample: "/user-accounts",
+  url: "https://restlens.com/rules/kebab-case-paths",
+};
+
+const VIOLATION = { ruleId: 7, ruleSlug: "kebab-case-paths", severity: "warning", message: "Path /userAccounts is not kebab-case" };
+
+/** Client answering documentation lookups with each result in turn */
+function client(...results: (RuleDocumentation | Error)[]): { client: RestLensClient; lookups: number[] } {
+  const lookups: number[] = [];
+  return {
+    client: {
+      getRuleDocumentation: async (ruleId: number) => {
+        lookups.push(ruleId);
+        const result = results.shift();
+        if (!result || result instanceof Error) throw result ?? new Error("No documentation");
+        return result;
+      },
+    } as unknown as RestLensClient,
+    lookups,
+  };
+}
+
+describe("RuleDocsCache", () => {
+  it("fetches each rule's documentation once", async () => {
+    const cache = new RuleDocsCache();
+    const api = client(DOCS);
+    const [first, second] = await Promise.all([cache.get(api.client, 7), cache.get(api.client, 7)]);
+    assert.equal(first, DOCS);
+    assert.equal(second, DOCS);
+    assert.equal(await cache.get(api.client, 7), DOCS);
+    assert.deepEqual(api.lookups, [7]);
+  });
+
+  it("fetches again after a failed lookup or a clear", async () => {
+    const cache = new RuleDocsCache();
+    const api = client(new Error("Unavailable"), DOCS, DOCS);
+    assert.equal(await cache.get(api.client, 7), null);
+    assert.equal(await cache.get(api.client, 7), DOCS);
+    cache.clear();
+    assert.equal(await cache.get(api.client, 7), DOCS);
+    assert.deepEqual(api.lookups, [7, 7, 7]);
+  });
+});
+
+describe("formatRuleHover", () => {
+  it("renders the violation with the rule's rationale, examples and link", () => {
+    assert.equal(formatRuleHover(VIOLATION, DOCS, "https://restlens.com/rules/other"), [
+      "**REST Lens** `kebab-case-paths` · warning",
+      "",
+      "Path /userAccounts is not kebab-case",
+      "",
+      "#### Path segments must be kebab-case",
+      "",
+      "URLs are case-sensitive.",
+      "",
+      "**Bad**",
+      "",
+      "```yaml\n/userAccounts\n```",
+      "",
+      "**Good**",
+      "",
+      "```yaml\n/user-accounts\n```",
+      "",
+      "[Rule documentation](https://restlens.com/rules/kebab-case-paths)",
+    ].join("\n"));
+  });
+
+  it("falls back to the description and the rule page when the API has neither rationale nor link", () => {
+    const hover = formatRuleHover(
+      { ...VIOLATION, severity: undefined },
+      { id: 7, slug: "kebab-case-paths", description: "Use kebab-case." },
+      "https://restlens.com/rules/kebab-case-paths"
+    );
+    assert.equal(hover, [
+      "**REST Lens** `kebab-case-paths`",
+      "",
+      "Path /userAccounts is not kebab-case",
+      "",
+      "Use kebab-case.",
+      "",
+      "[Rule documentation](https://restlens.com/rules/kebab-case-paths)",
+    ].join("\n"));
+  });
+
+  it("renders just the violation without documentation", () => {
+    assert.equal(formatRuleHover(VIOLATION, null, null), "**REST Lens** `kebab-case-paths` · warning\n\nPath /userAccounts is not kebab-case");
+  });
+});
+
+describe("toMarkup", () => {
+  it("separates the sections of several violations", () => {
+    assert.deepEqual(toMarkup(["one", "two"]), { kind: MarkupKind.Markdown, value: "one\n\n---\n\ntwo" });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ViolationKV } from "@restlens/lib";
+import type { IgnoreRecord } from "../src/api-client";
+import { applyIgnoreRecords, isExpired, scopedViolationKey } from "../src/ignores";
+
+const key = { path: "/users/{id}", operation_id: "getUser", http_code: "404", schema_path: "Error.code" };
+const now = Date.parse("2026-06-01T00:00:00Z");
+
+function violation(ruleSlug: string, ruleId: number): ViolationKV {
+  return {
+    key,
+    value: [{ message: `${ruleSlug} failed`, rule_id: ruleId, rule_slug: ruleSlug, severity: "warning" }],
+  } as ViolationKV;
+}
+
+function ignore(fields: Partial<IgnoreRecord>): IgnoreRecord {
+  return { id: "ignore-1", violationKey: key, ...fields };
+}
+
+function messages(violations: ViolationKV[]): string[] {
+  return violations.flatMap((v) => v.value.map((message) => message.message));
+}
+
+describe("scopedViolationKey", () => {
+  it("keeps the fields each scope covers", () => {
+    assert.deepEqual(scopedViolationKey(key, "location"), key);
+    assert.deepEqual(scopedViolationKey(key, "operation"), { path: "/users/{id}", operation_id: "getUser" });
+    assert.deepEqual(scopedViolationKey(key, "path"), { path: "/users/{id}" });
+  });
+});
+
+describe("isExpired", () => {
+  it("compares the expiry with the current time", () => {
+    assert.equal(isExpired(ignore({}), now), false);
+    assert.equal(isExpired(ignore({ expiresAt: "2026-05-31T23:59:59Z" }), now), true);
+    assert.equal(isExpired(ignore({ expiresAt: "2026-06-02T00:00:00Z" }), now), false);
+    assert.equal(isExpired(ignore({ expiresAt: "not a date" }), now), false);
+  });
+});
+
+describe("applyIgnoreRecords", () => {
+  const violations = [violation("error-schema", 7), violation("kebab-case-paths", 3)];
+
+  it("leaves violations of active ignores to the backend", () => {
+    const ignores = [ignore({ ruleId: 7 }), ignore({ expiresAt: "2026-06-02T00:00:00Z" })];
+    assert.deepEqual(applyIgnoreRecords(violations, ignores, now), violations);
+  });
+
+  it("notes lapsed ignores on the violations they covered", () => {
+    const ignores = [
+      ignore({
+        scope: "operation",
+        violationKey: { path: "/users/{id}", operation_id: "getUser" },
+        ruleSlug: "error-schema",
+        expiresAt: "2026-05-01T00:00:00Z",
+        reason: "Legacy errors",
+      }),
+    ];
+
+    assert.deepEqual(messages(applyIgnoreRecords(violations, ignores, now)), [
+      "error-schema failed (ignore expired 2026-05-01: Legacy errors)",
+      "kebab-case-paths failed",
+    ]);
+  });
+
+  it("leaves violations of other locations and rules alone", () => {
+    const ignores = [
+      ignore({ scope: "path", violationKey: { path: "/orders" }, expiresAt: "2026-05-01T00:00:00Z" }),
+      ignore({ ruleId: 99, expiresAt: "2026-05-01T00:00:00Z" }),
+    ];
+    assert.deepEqual(applyIgnoreRecords(violations, ignores, now), violations);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parse } from "yaml";
+import {
+  evaluateLocally,
+  getLocalRuleDocumentation,
+  isCollectionSegment,
+  isKebabCaseSegment,
+  isPlural,
+} from "../src/local-rules";
+
+function findings(yaml: string): { slug?: string; schemaPath?: string; message: string }[] {
+  return evaluateLocally(parse(yaml)).flatMap((violation) =>
+    violation.value.map((v) => ({ slug: v.rule_slug, schemaPath: violation.key.schema_path, message: v.message }))
+  );
+}
+
+describe("evaluateLocally", () => {
+  it("reports nothing for a spec that follows the rules", () => {
+    const spec = [
+      "openapi: 3.0.3",
+      "paths:",
+      "  /user-accounts/{id}:",
+      "    get:",
+      "      operationId: getUserAccount",
+      "      responses:",
+      "        '200': {description: OK}",
+      "        4XX: {description: Client error}",
+    ].join("\n");
+    assert.deepEqual(findings(spec), []);
+  });
+
+  it("reports each rule at the node it applies to", () => {
+    const spec = [
+      "openapi: 3.0.3",
+      "paths:",
+      "  /userAccount/{id}:",
+      "    get:",
+      "      responses:",
+      "        '200': {description: OK}",
+    ].join("\n");
+    assert.deepEqual(findings(spec), [
+      { slug: "operation-id-required", schemaPath: "#/paths/~1userAccount~1{id}/get", message: "GET /userAccount/{id} has no operationId" },
+      { slug: "kebab-case-paths", schemaPath: "#/paths/~1userAccount~1{id}", message: "Path /userAccount/{id} has segments that are not kebab-case: userAccount" },
+      { slug: "require-4xx-response", schemaPath: "#/paths/~1userAccount~1{id}/get/responses", message: "GET /userAccount/{id} does not document any 4xx response" },
+      { slug: "plural-collection-names", schemaPath: "#/paths/~1userAccount~1{id}", message: "Path /userAccount/{id} uses singular collection names: userAccount" },
+    ]);
+  });
+
+  it("reports operations without responses at the operation", () => {
+    const spec = "paths:\n  /users:\n    post:\n      operationId: createUser\n";
+    assert.deepEqual(findings(spec), [
+      { slug: "require-4xx-response", schemaPath: "#/paths/~1users/post", message: "POST /users does not document any 4xx response" },
+    ]);
+  });
+
+  it("reports findings like the API, with their severity", () => {
+    const [violation] = evaluateLocally(parse("paths:\n  /Users: {}\n"));
+    assert.equal(violation.key.path, "/Users");
+    assert.deepEqual(violation.value, [{
+      message: "Path /Users has segments that are not kebab-case: Users",
+      rule_id: 0,
+      rule_slug: "kebab-case-paths",
+      severity: "warning",
+    }]);
+  });
+
+  it("ignores path items and operations that are not objects", () => {
+    assert.deepEqual(findings("paths:\n  /users: null\n  /teams:\n    get: true\n"), []);
+  });
+});
+
+describe("getLocalRuleDocumentation", () => {
+  it("describes local rules in the shape of the rules API", () => {
+    const documentation = getLocalRuleDocumentation("kebab-case-paths");
+    assert.equal(documentation?.id, 0);
+    assert.equal(documentation?.name, "Path segments must be kebab-case");
+    assert.equal(documentation?.goodExample, "/user-accounts/{id}");
+  });
+
+  it("returns null for rules that are only on the server", () => {
+    assert.equal(getLocalRuleDocumentation("no-such-rule"), null);
+  });
+});
+
+describe("path segment helpers", () => {
+  it("recognizes kebab-case segments", () => {
+    assert.equal(isKebabCaseSegment("user-accounts"), true);
+    assert.equal(isKebabCaseSegment("v2"), true);
+    assert.equal(isKebabCaseSegment("userAccounts"), false);
+    assert.equal(isKebabCaseSegment("user_accounts"), false);
+    assert.equal(isKebabCaseSegment("-users"), false);
+  });
+
+  it("treats segments followed by a parameter as collections", () => {
+    const segments = ["teams", "{teamId}", "members", "me"];
+    assert.equal(isCollectionSegment(segments, 0), true);
+    assert.equal(isCollectionSegment(segments, 1), false);
+    assert.equal(isCollectionSegment(segments, 2), false);
+  });
+
+  it("recognizes plural nouns by their last word", () => {
+    assert.equal(isPlural("user-accounts"), true);
+    assert.equal(isPlural("people"), true);
+    assert.equal(isPlural("account-metadata"), true);
+    assert.equal(isPlural("user"), false);
+    assert.equal(isPlural("address"), false);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { ViolationKV } from "@restlens/lib";
+import type { CacheScope } from "../src/cache";
+import { PersistentCache } from "../src/persistent-cache";
+
+const SCOPE: CacheScope = { apiUrl: "https://restlens.com", organization: "acme", project: "users" };
+const OTHER_PROJECT: CacheScope = { ...SCOPE, project: "orders" };
+
+const VIOLATIONS = [{
+  key: { path: "/userAccounts" },
+  value: [{ message: "Path is not kebab-case", rule_id: 1, rule_slug: "kebab-case-paths", severity: "warning" }],
+}] as ViolationKV[];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("PersistentCache", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "restlens-cache-")), "diagnostics");
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(directory), { recursive: true, force: true });
+  });
+
+  it("returns what was stored for the same content and project, with its revision", async () => {
+    const cache = new PersistentCache(directory, { maxSizeBytes: 1024 * 1024, ttlMs: 60_000 });
+    await cache.set("openapi: 3.0.3", SCOPE, "rev-1", VIOLATIONS);
+
+    const entry = await cache.get("openapi: 3.0.3", SCOPE);
+    assert.equal(entry?.revision, "rev-1");
+    assert.deepEqual(entry?.violations, VIOLATIONS);
+    assert.equal(await cache.get("openapi: 3.1.0", SCOPE), null);
+    assert.equal(await cache.get("openapi: 3.0.3", OTHER_PROJECT), null);
+  });
+
+  it("survives a new instance on the same directory", async () => {
+    await new PersistentCache(directory, { maxSizeBytes: 1024 * 1024, ttlMs: 60_000 }).set("spec", SCOPE, null, VIOLATIONS);
+    const entry = await new PersistentCache(directory, { maxSizeBytes: 1024 * 1024, ttlMs: 60_000 }).get("spec", SCOPE);
+    assert.equal(entry?.revision, null);
+    assert.deepEqual(entry?.violations, VIOLATIONS);
+  });
+
+  it("drops expired entries", async () => {
+    const cache = new PersistentCache(directory, { maxSizeBytes: 1024 * 1024, ttlMs: 5 });
+    await cache.set("spec", SCOPE, "rev-1", VIOLATIONS);
+    await sleep(20);
+
+    assert.equal(await cache.get("spec", SCOPE), null);
+    assert.deepEqual(await fs.readdir(directory), []);
+  });
+
+  it("prunes the oldest entries until under the size cap", async () => {
+    const writer = new PersistentCache(directory, { maxSizeBytes: 1024 * 1024, ttlMs: 60_000 });
+    for (const spec of ["a", "b", "c"]) {
+      await writer.set(spec, SCOPE, "rev-1", VIOLATIONS);
+    }
+    const names = await fs.readdir(directory);
+    const size = (await fs.stat(path.join(directory, names[0]))).size;
+
+    // Age the entries so "a" is the oldest, then "b", then "c"
+    const now = Date.now() / 1000;
+    for (const [i, spec] of ["a", "b", "c"].entries()) {
+      const file = names.find((name) => name.endsWith(`-${createHash("sha256").update(spec).digest("hex")}.json`))!;
+      await fs.utimes(path.join(directory, file), now - 30 + i, now - 30 + i);
+    }
+
+    // A new instance prunes on its first write; three entries fit the cap
+    const cache = new PersistentCache(directory, { maxSizeBytes: size * 3, ttlMs: 60_000 });
+    await cache.set("d", SCOPE, "rev-1", VIOLATIONS);
+
+    assert.equal(await cache.get("a", SCOPE), null);
+    assert.notEqual(await cache.get("b", SCOPE), null);
+    assert.notEqual(await cache.get("c", SCOPE), null);
+    assert.notEqual(await cache.get("d", SCOPE), null);
+  });
+
+  it("clears one project's entries or all of them", async () => {
+    const cache = new PersistentCache(directory, { maxSizeBytes: 1024 * 1024, ttlMs: 60_000 });
+    await cache.set("spec", SCOPE, "rev-1", VIOLATIONS);
+    await cache.set("spec", OTHER_PROJECT, "rev-1", VIOLATIONS);
+
+    await cache.clearScope(SCOPE);
+    assert.equal(await cache.get("spec", SCOPE), null);
+    assert.notEqual(await cache.get("spec", OTHER_PROJECT), null);
+
+    await cache.clear();
+    assert.equal(await cache.get("spec", OTHER_PROJECT), null);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parse } from "yaml";
+import { bundleSpec, locateInBundle, resolveRef, type FileReader } from "../src/ref-resolver";
+
+const ROOT = "file:///specs/api.yaml";
+
+const FILES: Record<string, string> = {
+  "file:///specs/schemas/user.yaml": [
+    "User:",
+    "  type: object",
+    "  properties:",
+    "    id: {type: string}",
+    "    address: {$ref: '#/Address'}",
+    "    team: {$ref: './team.yaml'}",
+    "Address:",
+    "  type: object",
+    "  properties:",
+    "    city: {type: string}",
+  ].join("\n"),
+  "file:///specs/schemas/team.yaml": [
+    "type: object",
+    "properties:",
+    "  lead: {$ref: '../api.yaml#/components/schemas/Lead'}",
+  ].join("\n"),
+  "file:///specs/schemas/loop.yaml": "Node: {type: object, properties: {next: {$ref: '#/Node'}}}",
+};
+
+const readFile: FileReader = async (uri) => FILES[uri] ?? null;
+
+function root(schema: object): object {
+  return {
+    openapi: "3.0.3",
+    paths: {
+      "/users": { get: { responses: { "200": { content: { "application/json": { schema } } } } } },
+    },
+    components: { schemas: { Lead: { type: "string" } } },
+  };
+}
+
+const SCHEMA = ["paths", "/users", "get", "responses", "200", "content", "application/json", "schema"];
+
+describe("bundleSpec", () => {
+  it("inlines relative refs and the refs inside the files they point to", async () => {
+    const bundle = await bundleSpec(ROOT, root({ $ref: "schemas/user.yaml#/User" }), readFile);
+    const schema = SCHEMA.reduce((node: any, key) => node[key], bundle.spec);
+
+    assert.equal(schema.properties.id.type, "string");
+    assert.equal(schema.properties.address.properties.city.type, "string");
+    assert.deepEqual(schema.properties.team.properties.lead, { $ref: "#/components/schemas/Lead" });
+    assert.deepEqual(Array.from(bundle.files.keys()).sort(), [
+      "file:///specs/schemas/team.yaml",
+      "file:///specs/schemas/user.yaml",
+    ]);
+  });
+
+  it("keeps local refs of the root, remote refs and refs it cannot resolve", async () => {
+    const spec = {
+      a: { $ref: "#/components/schemas/Lead" },
+      b: { $ref: "https://example.com/schemas/user.yaml" },
+      c: { $ref: "schemas/missing.yaml" },
+      d: { $ref: "schemas/user.yaml#/Nope" },
+    };
+    const bundle = await bundleSpec(ROOT, spec, readFile);
+    assert.deepEqual(bundle.spec, spec);
+    assert.deepEqual(bundle.sources, []);
+  });
+
+  it("stops at cycles", async () => {
+    const bundle = await bundleSpec(ROOT, { schema: { $ref: "schemas/loop.yaml#/Node" } }, readFile);
+    assert.deepEqual(bundle.spec, {
+      schema: { type: "object", properties: { next: { $ref: "#/Node" } } },
+    });
+  });
+
+  it("keeps keys next to a $ref", async () => {
+    const spec = parse("schema: {$ref: 'schemas/user.yaml#/Address', description: Where they live}");
+    const bundle = await bundleSpec(ROOT, spec, readFile);
+    assert.equal((bundle.spec as any).schema.description, "Where they live");
+    assert.equal((bundle.spec as any).schema.properties.city.type, "string");
+  });
+});
+
+describe("locateInBundle", () => {
+  it("maps pointers to the file and pointer that own them", async () => {
+    const bundle = await bundleSpec(ROOT, root({ $ref: "schemas/user.yaml#/User" }), readFile);
+
+    assert.deepEqual(locateInBundle(bundle, [...SCHEMA, "properties", "id"]), {
+      uri: "file:///specs/schemas/user.yaml",
+      pointer: ["User", "properties", "id"],
+    });
+    assert.deepEqual(locateInBundle(bundle, [...SCHEMA, "properties", "address", "properties", "city"]), {
+      uri: "file:///specs/schemas/user.yaml",
+      pointer: ["Address", "properties", "city"],
+    });
+    assert.deepEqual(locateInBundle(bundle, [...SCHEMA, "properties", "team", "properties"]), {
+      uri: "file:///specs/schemas/team.yaml",
+      pointer: ["properties"],
+    });
+  });
+
+  it("returns null for nodes of the root document", async () => {
+    const bundle = await bundleSpec(ROOT, root({ $ref: "schemas/user.yaml#/User" }), readFile);
+    assert.equal(locateInBundle(bundle, ["paths", "/users", "get"]), null);
+  });
+});
+
+describe("resolveRef", () => {
+  it("resolves relative and local refs against the file they are in", () => {
+    assert.deepEqual(resolveRef("file:///specs/schemas/team.yaml", "../api.yaml#/components/schemas/Lead"), {
+      uri: "file:///specs/api.yaml",
+      pointer: ["components", "schemas", "Lead"],
+    });
+    assert.deepEqual(resolveRef(ROOT, "#/paths/~1users"), { uri: ROOT, pointer: ["paths", "/users"] });
+    assert.deepEqual(resolveRef(ROOT, "common%20schemas/user.yaml"), {
+      uri: "file:///specs/common%20schemas/user.yaml",
+      pointer: [],
+    });
+  });
+
+  it("returns null for remote refs", () => {
+    assert.equal(resolveRef(ROOT, "https://example.com/user.yaml#/User"), null);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseSpecAst } from "../src/ast";
+import { collectRefs, findReferences, loadRefGraph, refAt, targetLocation } from "../src/references";
+
+const ROOT = "file:///specs/api.yaml";
+const USER = "file:///specs/schemas/user.yaml";
+
+const root = [
+  "paths:",
+  "  /users:",
+  "    get:",
+  "      responses:",
+  "        '200':",
+  "          content:",
+  "            application/json:",
+  "              schema: {$ref: '#/components/schemas/User'}",
+  "components:",
+  "  schemas:",
+  "    User:",
+  "      $ref: 'schemas/user.yaml#/User'",
+  "    Remote: {$ref: 'https://example.com/user.yaml'}",
+  "",
+].join("\n");
+
+const user = [
+  "User:",
+  "  type: object",
+  "  properties:",
+  "    manager: {$ref: '#/User'}",
+  "    team: {$ref: './team.yaml'}",
+  "",
+].join("\n");
+
+describe("collectRefs", () => {
+  it("finds every $ref that resolves, with its target", () => {
+    const refs = collectRefs(ROOT, parseSpecAst(root));
+    assert.deepEqual(refs.map((ref) => [ref.ref, ref.target.uri, ref.target.pointer, ref.range.start.line]), [
+      ["#/components/schemas/User", ROOT, ["components", "schemas", "User"], 7],
+      ["schemas/user.yaml#/User", USER, ["User"], 11],
+    ]);
+  });
+});
+
+describe("refAt", () => {
+  it("finds the $ref under the cursor, on its key or its value", () => {
+    const ast = parseSpecAst(root);
+    assert.equal(refAt(ROOT, ast, { line: 11, character: 7 })?.ref, "schemas/user.yaml#/User");
+    assert.equal(refAt(ROOT, ast, { line: 11, character: 20 })?.ref, "schemas/user.yaml#/User");
+    assert.equal(refAt(ROOT, ast, { line: 10, character: 5 }), null);
+  });
+});
+
+describe("targetLocation", () => {
+  it("points at the key of the target, or the start of a whole file", () => {
+    const ast = parseSpecAst(user);
+    assert.deepEqual(targetLocation(ast, { uri: USER, pointer: ["User"] }), {
+      uri: USER,
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 4 } },
+    });
+    assert.deepEqual(targetLocation(ast, { uri: USER, pointer: [] })?.range.start, { line: 0, character: 0 });
+    assert.equal(targetLocation(ast, { uri: USER, pointer: ["Nope"] }), null);
+  });
+});
+
+describe("findReferences", () => {
+  it("follows $refs into other files and finds references across all of them", async () => {
+    const read: string[] = [];
+    const files = await loadRefGraph(new Map([[ROOT, parseSpecAst(root)]]), async (uri) => {
+      read.push(uri);
+      return uri === USER ? user : null;
+    });
+
+    assert.deepEqual(read, [USER, "file:///specs/schemas/team.yaml"]);
+    assert.deepEqual(Array.from(files.keys()), [ROOT, USER]);
+
+    const references = findReferences(files, { uri: USER, pointer: ["User"] });
+    assert.deepEqual(references.map((ref) => [ref.uri, ref.range.start.line]), [
+      [ROOT, 11],
+      [USER, 3],
+    ]);
+  });
+});
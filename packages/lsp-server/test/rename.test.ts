@@ -0,0 +1,127 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import type { TextEdit } from "vscode-languageserver/node";
+import { parseSpecAst, type SpecAst } from "../src/ast";
+import { RenameError, renameComponentEdits, renameOperationIdEdits, renameTargetAt, retargetRefEdits } from "../src/rename";
+
+const ROOT = "file:///specs/api.yaml";
+const SHARED = "file:///specs/shared.yaml";
+
+const root = [
+  "paths:",
+  "  /users/{id}:",
+  "    get:",
+  "      operationId: getUser",
+  "      responses:",
+  "        '200':",
+  "          content:",
+  "            application/json:",
+  "              schema: {$ref: '#/components/schemas/User'}",
+  "          links:",
+  "            manager: {operationId: getUser}",
+  "  /teams:",
+  "    get:",
+  "      operationId: listTeams",
+  "      responses:",
+  "        '200': {$ref: 'shared.yaml#/paths/~1users~1{id}/get/responses/200'}",
+  "components:",
+  "  schemas:",
+  "    User:",
+  "      properties:",
+  "        id: {type: string}",
+  "    Team:",
+  "      properties:",
+  "        lead: {$ref: '#/components/schemas/User/properties/id'}",
+  "",
+].join("\n");
+
+const shared = [
+  "paths:",
+  "  /users/{id}:",
+  "    get:",
+  "      responses:",
+  "        '200':",
+  "          description: OK",
+  "Owner: {$ref: 'api.yaml#/components/schemas/User'}",
+  "",
+].join("\n");
+
+function files(): Map<string, SpecAst> {
+  return new Map([[ROOT, parseSpecAst(root)], [SHARED, parseSpecAst(shared)]]);
+}
+
+function apply(text: string, edits: TextEdit[] = []): string {
+  return TextDocument.applyEdits(TextDocument.create("file:///api.yaml", "yaml", 1, text), edits);
+}
+
+describe("renameTargetAt", () => {
+  const ast = parseSpecAst(root);
+
+  it("renames components from their key or a $ref to them", () => {
+    const fromKey = renameTargetAt(ROOT, ast, { line: 18, character: 5 });
+    assert.deepEqual(fromKey && [fromKey.kind, fromKey.pointer, fromKey.range.start], [
+      "component", ["components", "schemas", "User"], { line: 18, character: 4 },
+    ]);
+
+    // Only the name in the $ref is selected
+    const fromRef = renameTargetAt(ROOT, ast, { line: 8, character: 30 });
+    assert.deepEqual(fromRef && [fromRef.kind, fromRef.pointer, fromRef.range], [
+      "component",
+      ["components", "schemas", "User"],
+      { start: { line: 8, character: 51 }, end: { line: 8, character: 55 } },
+    ]);
+  });
+
+  it("renames operationIds from their value", () => {
+    const target = renameTargetAt(ROOT, ast, { line: 3, character: 20 });
+    assert.deepEqual(target && [target.kind, target.name], ["operationId", "getUser"]);
+  });
+
+  it("renames nothing else", () => {
+    assert.equal(renameTargetAt(ROOT, ast, { line: 1, character: 4 }), null);
+    assert.equal(renameTargetAt(ROOT, ast, { line: 23, character: 20 }), null);
+  });
+});
+
+describe("renameComponentEdits", () => {
+  it("renames the key and every $ref to the component or inside it, in every file", () => {
+    const target = renameTargetAt(ROOT, parseSpecAst(root), { line: 18, character: 5 })!;
+    const changes = renameComponentEdits(files(), target, "Account");
+
+    const renamed = apply(root, changes[ROOT]);
+    assert.match(renamed, /^    Account:$/m);
+    assert.match(renamed, /schema: \{\$ref: '#\/components\/schemas\/Account'\}/);
+    assert.match(renamed, /lead: \{\$ref: '#\/components\/schemas\/Account\/properties\/id'\}/);
+    assert.equal(apply(shared, changes[SHARED]).split("\n")[6], "Owner: {$ref: 'api.yaml#/components/schemas/Account'}");
+  });
+
+  it("rejects invalid and taken names", () => {
+    const target = renameTargetAt(ROOT, parseSpecAst(root), { line: 18, character: 5 })!;
+    assert.throws(() => renameComponentEdits(files(), target, "User Account"), RenameError);
+    assert.throws(() => renameComponentEdits(files(), target, "Team"), /already exists in schemas/);
+  });
+});
+
+describe("retargetRefEdits", () => {
+  it("points refs into a renamed path at its new name, keeping their file part", () => {
+    const changes = retargetRefEdits(files(), SHARED, ["paths", "/users/{id}"], ["paths", "/user-accounts/{id}"]);
+    assert.deepEqual(Object.keys(changes), [ROOT]);
+    assert.match(apply(root, changes[ROOT]), /'200': \{\$ref: 'shared\.yaml#\/paths\/~1user-accounts~1\{id\}\/get\/responses\/200'\}/);
+  });
+});
+
+describe("renameOperationIdEdits", () => {
+  it("renames the operationId and the links that use it", () => {
+    const target = renameTargetAt(ROOT, parseSpecAst(root), { line: 3, character: 20 })!;
+    const renamed = apply(root, renameOperationIdEdits(files(), target, "getUserAccount")[ROOT]);
+    assert.match(renamed, /^      operationId: getUserAccount$/m);
+    assert.match(renamed, /manager: \{operationId: getUserAccount\}/);
+  });
+
+  it("rejects ids that are empty or already used", () => {
+    const target = renameTargetAt(ROOT, parseSpecAst(root), { line: 3, character: 20 })!;
+    assert.throws(() => renameOperationIdEdits(files(), target, " "), /cannot be empty/);
+    assert.throws(() => renameOperationIdEdits(files(), target, "listTeams"), /already used/);
+  });
+});
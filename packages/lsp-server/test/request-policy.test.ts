@@ -0,0 +1,216 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { RestLensAPIError } from "@restlens/lib";
+import { CircuitOpenError, RequestPolicy, isUnavailableError } from "../src/request-policy";
+
+const FAST = { baseDelayMs: 1, maxDelayMs: 4 };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Operation failing with each of the errors in turn, then returning "ok" */
+function failing(...errors: unknown[]): { operation: () => Promise<string>; attempts: () => number } {
+  let attempts = 0;
+  return {
+    operation: async () => {
+      const error = errors[attempts++];
+      if (error) throw error;
+      return "ok";
+    },
+    attempts: () => attempts,
+  };
+}
+
+describe("RequestPolicy.run", () => {
+  it("retries 5xx responses and network errors with backoff", async () => {
+    const policy = new RequestPolicy(FAST);
+    const { operation, attempts } = failing(new RestLensAPIError(503, "Unavailable"), new TypeError("fetch failed"));
+    assert.equal(await policy.run(operation), "ok");
+    assert.equal(attempts(), 3);
+  });
+
+  it("gives up after the last retry with the last error", async () => {
+    const policy = new RequestPolicy({ ...FAST, maxRetries: 2 });
+    const last = new RestLensAPIError(500, "Third");
+    const { operation, attempts } = failing(new RestLensAPIError(500, "First"), new RestLensAPIError(500, "Second"), last);
+    await assert.rejects(policy.run(operation), (error) => error === last);
+    assert.equal(attempts(), 3);
+  });
+
+  it("does not retry client errors, or 5xx responses of requests that aren't idempotent", async () => {
+    const policy = new RequestPolicy(FAST);
+
+    const rejected = failing(new RestLensAPIError(400, "Bad request"));
+    await assert.rejects(policy.run(rejected.operation));
+    assert.equal(rejected.attempts(), 1);
+
+    const created = failing(new RestLensAPIError(502, "Bad gateway"));
+    await assert.rejects(policy.run(created.operation, { idempotent: false }));
+    assert.equal(created.attempts(), 1);
+
+    const limited = failing(new RestLensAPIError(429, "Too many requests"));
+    assert.equal(await policy.run(limited.operation, { idempotent: false }), "ok");
+  });
+
+  it("stops retrying once aborted", async () => {
+    const policy = new RequestPolicy({ baseDelayMs: 1000, maxDelayMs: 1000 });
+    const controller = new AbortController();
+    const { operation, attempts } = failing(new RestLensAPIError(503, "Unavailable"));
+
+    const run = policy.run(operation, { signal: controller.signal });
+    await sleep(10);
+    controller.abort(new Error("Superseded"));
+    await assert.rejects(run, /Superseded/);
+    assert.equal(attempts(), 1);
+  });
+});
+
+describe("RequestPolicy circuit breaker", () => {
+  it("pauses requests after repeated failures and resumes after the cooldown", async () => {
+    const changes: boolean[] = [];
+    const policy = new RequestPolicy({ ...FAST, maxRetries: 0, failureThreshold: 2, cooldownMs: 30 }, (paused) => changes.push(paused));
+
+    for (let i = 0; i < 2; i++) {
+      await assert.rejects(policy.run(failing(new RestLensAPIError(503, "Unavailable")).operation));
+    }
+    assert.equal(policy.paused, true);
+    assert.deepEqual(changes, [true]);
+
+    const skipped = failing();
+    await assert.rejects(policy.run(skipped.operation), CircuitOpenError);
+    assert.equal(skipped.attempts(), 0);
+
+    await sleep(50);
+    assert.deepEqual(changes, [true, false]);
+    assert.equal(await policy.run(failing().operation), "ok");
+  });
+
+  it("opens again on the first failure after resuming", async () => {
+    const policy = new RequestPolicy({ ...FAST, maxRetries: 0, failureThreshold: 2, cooldownMs: 10 });
+    for (let i = 0; i < 2; i++) {
+      await assert.rejects(policy.run(failing(new RestLensAPIError(500, "Error")).operation));
+    }
+    await sleep(30);
+    await assert.rejects(policy.run(failing(new RestLensAPIError(500, "Error")).operation));
+    assert.equal(policy.paused, true);
+  });
+
+  it("does not count client errors or successes in between", async () => {
+    const policy = new RequestPolicy({ ...FAST, maxRetries: 0, failureThreshold: 2 });
+    await assert.rejects(policy.run(failing(new RestLensAPIError(500, "Error")).operation));
+    await policy.run(failing().operation);
+    await assert.rejects(policy.run(failing(new RestLensAPIError(500, "Error")).operation));
+    await assert.rejects(policy.run(failing(new RestLensAPIError(404, "Not found")).operation));
+    assert.equal(policy.paused, false);
+  });
+});
+
+describe("RequestPolicy concurrency", () => {
+  it("runs at most maxConcurrent operations at once", async () => {
+    const policy = new RequestPolicy({ maxConcurrent: 2 });
+    let running = 0;
+    let peak = 0;
+    const operation = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(5);
+      running--;
+    };
+
+    await Promise.all(Array.from({ length: 5 }, () => policy.run(operation)));
+    assert.equal(peak, 2);
+  });
+
+  it("keeps an abandoned operation's slot until it settles", async () => {
+    const policy = new RequestPolicy({ maxConcurrent: 1 });
+    const controller = new AbortController();
+    let firstDone = false;
+
+    const first = policy.run(async () => {
+      await sleep(30);
+      firstDone = true;
+    }, { signal: controller.signal });
+    controller.abort(new Error("Superseded"));
+
+    await policy.run(async () => assert.equal(firstDone, true));
+    await first;
+  });
+
+  it("drops a waiting operation when aborted", async () => {
+    const policy = new RequestPolicy({ maxConcurrent: 1 });
+    const controller = new AbortController();
+    let started = false;
+
+    const first = policy.run(() => sleep(20));
+    const waiting = policy.run(async () => {
+      started = true;
+    }, { signal: controller.signal });
+    controller.abort(new Error("Superseded"));
+
+    await assert.rejects(waiting, /Superseded/);
+    await first;
+    assert.equal(started, false);
+  });
+});
+
+describe("RequestPolicy.fetch", () => {
+  let server: http.Server;
+  let url: string;
+  let responses: { status: number; headers?: Record<string, string> }[] = [];
+  let requests = 0;
+
+  before(async () => {
+    server = http.createServer((_request, response) => {
+      const { status, headers } = responses[requests++] ?? { status: 200 };
+      response.writeHead(status, headers);
+      response.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  function respond(...statuses: { status: number; headers?: Record<string, string> }[]): void {
+    responses = statuses;
+    requests = 0;
+  }
+
+  it("waits as long as Retry-After says on 429", async () => {
+    respond({ status: 429, headers: { "Retry-After": "0.05" } }, { status: 200 });
+    const started = Date.now();
+    const response = await new RequestPolicy(FAST).fetch(url, {});
+    assert.equal(response.status, 200);
+    assert.equal(requests, 2);
+    assert.ok(Date.now() - started >= 45);
+  });
+
+  it("returns the 429 when Retry-After is longer than it waits for", async () => {
+    respond({ status: 429, headers: { "Retry-After": "120" } });
+    const response = await new RequestPolicy(FAST).fetch(url, {});
+    assert.equal(response.status, 429);
+    assert.equal(requests, 1);
+  });
+
+  it("returns the last response once retries run out", async () => {
+    respond({ status: 503 }, { status: 502 });
+    const response = await new RequestPolicy({ ...FAST, maxRetries: 1 }).fetch(url, {});
+    assert.equal(response.status, 502);
+    assert.equal(requests, 2);
+  });
+});
+
+describe("isUnavailableError", () => {
+  it("tells unavailable APIs from rejected requests", () => {
+    assert.equal(isUnavailableError(new TypeError("fetch failed")), true);
+    assert.equal(isUnavailableError(new RestLensAPIError(0, "Network error", "network_error")), true);
+    assert.equal(isUnavailableError(new RestLensAPIError(503, "Unavailable")), true);
+    assert.equal(isUnavailableError(new RestLensAPIError(429, "Too many requests")), true);
+    assert.equal(isUnavailableError(new CircuitOpenError(Date.now() + 1000)), true);
+    assert.equal(isUnavailableError(new RestLensAPIError(403, "Forbidden")), false);
+    assert.equal(isUnavailableError(new Error("Invalid spec")), false);
+  });
+});
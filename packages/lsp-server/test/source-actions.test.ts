@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CodeActionTriggerKind, Diagnostic, TextEdit } from "vscode-languageserver/node";
+import { combineEdits, isKindRequested, relocateDiagnostics, FIX_ALL_KIND, IGNORE_ALL_OF_RULE_KIND } from "../src/source-actions";
+
+function insert(line: number, character: number, newText: string): TextEdit {
+  return { range: { start: { line, character }, end: { line, character } }, newText };
+}
+
+function replace(line: number, start: number, end: number, newText: string): TextEdit {
+  return { range: { start: { line, character: start }, end: { line, character: end } }, newText };
+}
+
+function diagnostic(line: number, ruleSlug: string, violationKey: object): Diagnostic {
+  return {
+    range: { start: { line, character: 2 }, end: { line, character: 10 } },
+    message: `${ruleSlug} failed`,
+    data: { ruleId: 1, ruleSlug, violationKey, message: `${ruleSlug} failed` },
+  };
+}
+
+describe("isKindRequested", () => {
+  it("matches requested kinds and their parents", () => {
+    const kind = `${IGNORE_ALL_OF_RULE_KIND}.kebab-case-paths`;
+    assert.equal(isKindRequested({ diagnostics: [], only: ["source"] }, kind), true);
+    assert.equal(isKindRequested({ diagnostics: [], only: [IGNORE_ALL_OF_RULE_KIND] }, kind), true);
+    assert.equal(isKindRequested({ diagnostics: [], only: [kind] }, kind), true);
+    assert.equal(isKindRequested({ diagnostics: [], only: ["source.restlens.ignore"] }, kind), false);
+    assert.equal(isKindRequested({ diagnostics: [], only: ["quickfix"] }, FIX_ALL_KIND), false);
+  });
+
+  it("computes source actions without a filter only when invoked", () => {
+    assert.equal(isKindRequested({ diagnostics: [], triggerKind: CodeActionTriggerKind.Invoked }, FIX_ALL_KIND), true);
+    assert.equal(isKindRequested({ diagnostics: [], triggerKind: CodeActionTriggerKind.Automatic }, FIX_ALL_KIND), false);
+    assert.equal(isKindRequested({ diagnostics: [] }, FIX_ALL_KIND), false);
+  });
+});
+
+describe("combineEdits", () => {
+  it("merges groups that don't overlap", () => {
+    const result = combineEdits([[insert(1, 0, "a"), insert(5, 0, "b")], [replace(3, 2, 6, "c")]]);
+    assert.deepEqual(result, { edits: [insert(1, 0, "a"), insert(5, 0, "b"), replace(3, 2, 6, "c")], skipped: 0 });
+  });
+
+  it("leaves out and counts whole groups that overlap an earlier one", () => {
+    const result = combineEdits([[replace(3, 2, 6, "a")], [insert(9, 0, "b"), replace(3, 4, 8, "c")], [insert(3, 6, "d")]]);
+    assert.deepEqual(result, { edits: [replace(3, 2, 6, "a")], skipped: 2 });
+  });
+
+  it("treats insertions at the same point as overlapping", () => {
+    assert.equal(combineEdits([[insert(2, 4, "a")], [insert(2, 4, "b")]]).skipped, 1);
+    assert.equal(combineEdits([[replace(2, 0, 4, "a")], [insert(2, 5, "b")]]).skipped, 0);
+  });
+});
+
+describe("relocateDiagnostics", () => {
+  const text = [
+    "openapi: 3.0.3",
+    "info: {title: Users, version: '1'}",
+    "paths:",
+    "  /health:",
+    "    get:",
+    "      responses: {'200': {description: OK}}",
+    "  /userAccounts:",
+    "    get:",
+    "      operationId: listUsers",
+    "      responses: {'200': {description: OK}}",
+    "",
+  ].join("\n");
+
+  it("moves diagnostics to where their violations are now", () => {
+    // Published when /userAccounts was the first path
+    const published = [diagnostic(3, "kebab-case-paths", { path: "/userAccounts" })];
+    const [located] = relocateDiagnostics(text, published);
+
+    assert.equal(located.ruleSlug, "kebab-case-paths");
+    assert.deepEqual(located.diagnostic.range, { start: { line: 6, character: 2 }, end: { line: 6, character: 15 } });
+    assert.equal(located.diagnostic.message, "kebab-case-paths failed");
+  });
+
+  it("keeps the range of violations whose key doesn't resolve", () => {
+    const published = [diagnostic(8, "operation-id-format", { path: "/userAccounts", schema_path: "x-internal" })];
+    const [located] = relocateDiagnostics(text, published);
+    assert.equal(located.ruleSlug, "operation-id-format");
+    assert.deepEqual(located.diagnostic.range, published[0].range);
+  });
+
+  it("drops diagnostics without violation data", () => {
+    const published: Diagnostic[] = [{ range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } }, message: "Sign in" }];
+    assert.deepEqual(relocateDiagnostics(text, published), []);
+  });
+});
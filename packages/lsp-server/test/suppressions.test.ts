@@ -0,0 +1,197 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ViolationKV } from "@restlens/lib";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  applySuppressions,
+  collectSuppressions,
+  fileSuppressionEdit,
+  suppressionEdit,
+  suppressionEdits,
+  unusedSuppressions,
+} from "../src/suppressions";
+
+function violation(path: string, ...slugs: string[]): ViolationKV {
+  return {
+    key: { path },
+    value: slugs.map((slug) => ({ message: `${slug} failed`, rule_id: 0, rule_slug: slug, severity: "warning" })),
+  } as ViolationKV;
+}
+
+function apply(text: string, edit: ReturnType<typeof suppressionEdit>): string {
+  assert.ok(edit);
+  return TextDocument.applyEdits(TextDocument.create("file:///api.yaml", "yaml", 1, text), [edit]);
+}
+
+const locate = (key: { path?: string }) => (key.path ? ["paths", key.path] : null);
+
+describe("collectSuppressions", () => {
+  it("reads both forms with their reasons", () => {
+    const spec = {
+      paths: {
+        "/userAccounts": { "x-restlens-ignore": { rules: ["kebab-case-paths"], reason: "Public URL" } },
+        "/user": { "x-restlens-ignore": ["plural-collection-names", 3] },
+      },
+    };
+    assert.deepEqual(collectSuppressions(spec), [
+      {
+        pointer: ["paths", "/userAccounts"],
+        rules: ["kebab-case-paths"],
+        rulePointers: [["paths", "/userAccounts", "x-restlens-ignore", "rules", "0"]],
+        reason: "Public URL",
+      },
+      {
+        pointer: ["paths", "/user"],
+        rules: ["plural-collection-names"],
+        rulePointers: [["paths", "/user", "x-restlens-ignore", "0"]],
+        reason: undefined,
+      },
+    ]);
+  });
+});
+
+describe("applySuppressions", () => {
+  it("drops the suppressed rules on the node and below it", () => {
+    const suppressions = collectSuppressions({ paths: { "/userAccounts": { "x-restlens-ignore": ["kebab-case-paths"] } } });
+    const result = applySuppressions(
+      [violation("/userAccounts", "kebab-case-paths", "plural-collection-names"), violation("/orderItems", "kebab-case-paths")],
+      suppressions,
+      locate
+    );
+    assert.deepEqual(
+      result.map((v) => [v.key.path, v.value.map((message) => message.rule_slug)]),
+      [
+        ["/userAccounts", ["plural-collection-names"]],
+        ["/orderItems", ["kebab-case-paths"]],
+      ]
+    );
+  });
+
+  it("drops every rule for *", () => {
+    const suppressions = collectSuppressions({ "x-restlens-ignore": ["*"], paths: {} });
+    const violations = [violation("/userAccounts", "kebab-case-paths", "plural-collection-names")];
+    assert.deepEqual(applySuppressions(violations, suppressions, locate), []);
+    assert.deepEqual(unusedSuppressions(violations, suppressions, locate), []);
+    assert.deepEqual(unusedSuppressions([], suppressions, locate), [{ slug: "*", pointer: ["x-restlens-ignore", "0"] }]);
+  });
+});
+
+describe("unusedSuppressions", () => {
+  it("lists the rule entries that silence nothing", () => {
+    const suppressions = collectSuppressions({
+      paths: { "/userAccounts": { "x-restlens-ignore": { rules: ["kebab-case-paths", "plural-collection-names"] } } },
+    });
+    assert.deepEqual(unusedSuppressions([violation("/userAccounts", "kebab-case-paths")], suppressions, locate), [
+      { slug: "plural-collection-names", pointer: ["paths", "/userAccounts", "x-restlens-ignore", "rules", "1"] },
+    ]);
+  });
+});
+
+describe("fileSuppressionEdit", () => {
+  it("adds an annotation with the reason at the root", () => {
+    const text = "openapi: 3.0.3\npaths: {}\n";
+    assert.equal(
+      apply(text, fileSuppressionEdit(text, "*", "Generated")),
+      'x-restlens-ignore: {rules: ["*"], reason: "Generated"}\nopenapi: 3.0.3\npaths: {}\n'
+    );
+  });
+
+  it("adds the rule to an existing root annotation", () => {
+    const text = "x-restlens-ignore: [kebab-case-paths]\nopenapi: 3.0.3\n";
+    assert.equal(
+      apply(text, fileSuppressionEdit(text, "plural-collection-names", "Legacy")),
+      "x-restlens-ignore: [kebab-case-paths, plural-collection-names]\nopenapi: 3.0.3\n"
+    );
+    assert.equal(fileSuppressionEdit(text, "kebab-case-paths", "Legacy"), null);
+  });
+
+  it("writes JSON in JSON specs", () => {
+    const text = '{\n  "openapi": "3.0.3"\n}\n';
+    assert.equal(
+      apply(text, fileSuppressionEdit(text, "kebab-case-paths", "Legacy")),
+      '{\n  "x-restlens-ignore": {"rules": ["kebab-case-paths"], "reason": "Legacy"},\n  "openapi": "3.0.3"\n}\n'
+    );
+  });
+});
+
+describe("suppressionEdit", () => {
+  const text = [
+    "openapi: 3.0.3",
+    "paths:",
+    "  /users:",
+    "    get:",
+    "      responses:",
+    "        '200':",
+    "          description: OK",
+    "          content:",
+    "            application/json:",
+    "              schema:",
+    "                type: object",
+    "                properties:",
+    "                  id: {type: string}",
+    "",
+  ].join("\n");
+
+  it("annotates the node at the position", () => {
+    assert.equal(
+      apply(text, suppressionEdit(text, { line: 12, character: 18 }, "camel-case-properties")).split("\n")[12],
+      "                  id: {x-restlens-ignore: [camel-case-properties], type: string}"
+    );
+  });
+
+  it("annotates the schema that owns a properties map, not the map", () => {
+    const lines = apply(text, suppressionEdit(text, { line: 11, character: 16 }, "schema-properties")).split("\n");
+    assert.deepEqual(lines.slice(9, 13), [
+      "              schema:",
+      "                x-restlens-ignore: [schema-properties]",
+      "                type: object",
+      "                properties:",
+    ]);
+  });
+
+  it("annotates the operation that owns responses and the response that owns content", () => {
+    const responses = apply(text, suppressionEdit(text, { line: 4, character: 6 }, "require-4xx-response")).split("\n");
+    assert.deepEqual(responses.slice(3, 5), ["    get:", "      x-restlens-ignore: [require-4xx-response]"]);
+
+    const content = apply(text, suppressionEdit(text, { line: 7, character: 10 }, "media-type")).split("\n");
+    assert.deepEqual(content.slice(5, 7), ["        '200':", "          x-restlens-ignore: [media-type]"]);
+  });
+
+  it("annotates a path item, and the document for the paths map itself", () => {
+    const pathItem = apply(text, suppressionEdit(text, { line: 2, character: 2 }, "kebab-case-paths")).split("\n");
+    assert.deepEqual(pathItem.slice(2, 4), ["  /users:", "    x-restlens-ignore: [kebab-case-paths]"]);
+
+    const paths = apply(text, suppressionEdit(text, { line: 1, character: 0 }, "paths-required")).split("\n");
+    assert.equal(paths[0], "x-restlens-ignore: [paths-required]");
+  });
+
+  it("adds the rule to an existing annotation in each of its forms", () => {
+    const annotated = (annotation: string) => `paths:\n  /userAccounts:\n    x-restlens-ignore: ${annotation}\n    get: {}\n`;
+    const position = { line: 1, character: 2 };
+    const line = (annotation: string) =>
+      apply(annotated(annotation), suppressionEdit(annotated(annotation), position, "plural-collection-names")).split("\n")[2];
+
+    assert.equal(line("[kebab-case-paths]"), "    x-restlens-ignore: [kebab-case-paths, plural-collection-names]");
+    assert.equal(line("kebab-case-paths"), "    x-restlens-ignore: [kebab-case-paths, plural-collection-names]");
+    assert.equal(line("{rules: [kebab-case-paths], reason: Legacy}"), "    x-restlens-ignore: {rules: [kebab-case-paths, plural-collection-names], reason: Legacy}");
+    assert.equal(suppressionEdit(annotated("[plural-collection-names]"), position, "plural-collection-names"), null);
+  });
+
+  it("adds the rule to a block list", () => {
+    const text = "paths:\n  /userAccounts:\n    x-restlens-ignore:\n      - kebab-case-paths\n    get: {}\n";
+    const lines = apply(text, suppressionEdit(text, { line: 1, character: 2 }, "plural-collection-names")).split("\n");
+    assert.deepEqual(lines.slice(3, 5), ["      - kebab-case-paths", "      - plural-collection-names"]);
+  });
+});
+
+describe("suppressionEdits", () => {
+  it("makes one edit per annotated node", () => {
+    const text = "paths:\n  /userAccounts:\n    get: {}\n    post: {}\n";
+    const edits = suppressionEdits(text, [{ line: 2, character: 4 }, { line: 2, character: 6 }, { line: 3, character: 4 }], "require-4xx-response");
+    assert.equal(edits.length, 2);
+    assert.equal(
+      TextDocument.applyEdits(TextDocument.create("file:///api.yaml", "yaml", 1, text), edits),
+      "paths:\n  /userAccounts:\n    get: { x-restlens-ignore: [require-4xx-response] }\n    post: { x-restlens-ignore: [require-4xx-response] }\n"
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SymbolKind, type DocumentSymbol } from "vscode-languageserver/node";
+import { parseSpecAst } from "../src/ast";
+import { buildDocumentSymbols, searchWorkspaceSymbols } from "../src/symbols";
+
+const text = [
+  "openapi: 3.0.3",
+  "paths:",
+  "  /users:",
+  "    parameters: []",
+  "    get:",
+  "      operationId: listUsers",
+  "    post: {}",
+  "components:",
+  "  schemas:",
+  "    User:",
+  "      type: object",
+  "  securitySchemes:",
+  "    oauth: {type: oauth2}",
+  "",
+].join("\n");
+
+type Outline = [string, SymbolKind, string | undefined, Outline[]];
+
+function outline(symbols: DocumentSymbol[] = []): Outline[] {
+  return symbols.map((symbol) => [symbol.name, symbol.kind, symbol.detail, outline(symbol.children)]);
+}
+
+describe("buildDocumentSymbols", () => {
+  it("lists paths with their operations and components by kind", () => {
+    assert.deepEqual(outline(buildDocumentSymbols(parseSpecAst(text))), [
+      ["paths", SymbolKind.Module, undefined, [
+        ["/users", SymbolKind.Namespace, undefined, [
+          ["GET /users", SymbolKind.Method, "listUsers", []],
+          ["POST /users", SymbolKind.Method, undefined, []],
+        ]],
+      ]],
+      ["components", SymbolKind.Module, undefined, [
+        ["schemas", SymbolKind.Module, undefined, [["User", SymbolKind.Struct, undefined, []]]],
+        ["securitySchemes", SymbolKind.Module, undefined, [["oauth", SymbolKind.Key, undefined, []]]],
+      ]],
+    ]);
+  });
+
+  it("spans each symbol from its key to the end of its value", () => {
+    const [paths] = buildDocumentSymbols(parseSpecAst(text));
+    const get = paths.children![0].children![0];
+    assert.deepEqual(get.selectionRange, { start: { line: 4, character: 4 }, end: { line: 4, character: 7 } });
+    assert.equal(get.range.start.line, 4);
+    assert.equal(get.range.end.line, 6);
+  });
+
+  it("outlines JSON specs", () => {
+    const json = '{"paths": {"/users": {"get": {"operationId": "listUsers"}}}}';
+    assert.deepEqual(outline(buildDocumentSymbols(parseSpecAst(json)))[0][3][0][3], [["GET /users", SymbolKind.Method, "listUsers", []]]);
+  });
+});
+
+describe("searchWorkspaceSymbols", () => {
+  const teams = "paths:\n  /teams:\n    get: {operationId: listTeams}\n";
+  const specs = [
+    { uri: "file:///users.yaml", text, ast: parseSpecAst(text) },
+    { uri: "file:///teams.yaml", text: teams, ast: parseSpecAst(teams) },
+  ];
+
+  it("matches operations on their operationId across specs", () => {
+    const results = searchWorkspaceSymbols(specs, "list");
+    assert.deepEqual(results.map((r) => [r.name, r.location.uri, r.containerName]), [
+      ["GET /users", "file:///users.yaml", "listUsers"],
+      ["GET /teams", "file:///teams.yaml", "listTeams"],
+    ]);
+  });
+
+  it("matches subsequences and leaves out grouping symbols", () => {
+    assert.deepEqual(searchWorkspaceSymbols(specs, "usr").map((r) => r.name), ["/users", "GET /users", "POST /users", "User"]);
+    assert.deepEqual(searchWorkspaceSymbols(specs, "schemas"), []);
+  });
+});
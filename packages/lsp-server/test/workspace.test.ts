@@ -0,0 +1,87 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { findOpenAPIFiles, runWithConcurrency } from "../src/workspace";
+
+const SPEC = "openapi: 3.0.3\ninfo: {title: Users, version: '1'}\npaths: {}\n";
+
+describe("findOpenAPIFiles", () => {
+  let root: string;
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "restlens-workspace-"));
+    const files: Record<string, string> = {
+      "api.yaml": SPEC,
+      "specs/orders.json": JSON.stringify({ openapi: "3.1.0", info: { title: "Orders", version: "1" }, paths: {} }, null, 2),
+      "specs/config.yml": "name: not a spec\n",
+      "specs/notes.txt": SPEC,
+      "node_modules/pkg/api.yaml": SPEC,
+      ".github/api.yaml": SPEC,
+    };
+    for (const [name, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(root, name)), { recursive: true });
+      await fs.writeFile(path.join(root, name), content);
+    }
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("finds specs, skipping other files and hidden or dependency directories", async () => {
+    const found = await findOpenAPIFiles([URI.file(root).toString()]);
+    assert.deepEqual(found.sort(), [
+      URI.file(path.join(root, "api.yaml")).toString(),
+      URI.file(path.join(root, "specs/orders.json")).toString(),
+    ]);
+  });
+
+  it("finds nothing once cancelled", async () => {
+    const found = await findOpenAPIFiles([URI.file(root).toString()], {
+      isCancellationRequested: true,
+      onCancellationRequested: () => ({ dispose: () => {} }),
+    });
+    assert.deepEqual(found, []);
+  });
+});
+
+describe("runWithConcurrency", () => {
+  it("runs every item with at most `limit` at once", async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      done.push(item);
+    });
+
+    assert.equal(peak, 2);
+    assert.deepEqual(done.sort(), [1, 2, 3, 4, 5]);
+  });
+
+  it("keeps going after a worker fails", async () => {
+    const done: number[] = [];
+    await runWithConcurrency([1, 2, 3], 1, async (item) => {
+      if (item === 2) throw new Error("failed");
+      done.push(item);
+    });
+    assert.deepEqual(done, [1, 3]);
+  });
+
+  it("stops picking up items once cancelled", async () => {
+    const token = { isCancellationRequested: false, onCancellationRequested: () => ({ dispose: () => {} }) };
+    const done: number[] = [];
+    await runWithConcurrency([1, 2, 3], 1, async (item) => {
+      done.push(item);
+      token.isCancellationRequested = true;
+    }, token);
+    assert.deepEqual(done, [1]);
+  });
+});
@@ -5,5 +5,44 @@
  * Common config values are exported from @restlens/lib.
  */
 
+import type { RestLensConfig } from "@restlens/lib";
+
 /** OAuth client ID for VS Code extension */
 export const OAUTH_CLIENT_ID = "vscode_restlens";
+
+/**
+ * Configuration sent to the language server: the common REST Lens config
+ * plus settings that only exist in the IDE.
+ */
+export interface IdeConfig extends RestLensConfig {
+  /** "offline" evaluates with the local rule engine only, never calling the API */
+  mode?: "online" | "offline";
+  /** Evaluate every OpenAPI file in the workspace in the background */
+  backgroundIndexing?: boolean;
+  /**
+   * How diagnostics reach the client: pulled when the client supports pull
+   * and refresh requests ("auto"), or always pushed ("push"). Read once
+   * when the server starts.
+   */
+  diagnosticMode?: "auto" | "push";
+  /** Keep evaluation results on disk across restarts */
+  persistentCache?: boolean;
+  /** Size cap of the on-disk cache in megabytes */
+  persistentCacheMaxSizeMb?: number;
+  /** Lifetime of on-disk cache entries in hours */
+  persistentCacheTtlHours?: number;
+  /** Violation counts above each path item and operation */
+  codeLens?: boolean;
+  /** Only show violations that do not exist at a git baseline revision */
+  newViolationsOnly?: boolean;
+  /** Git ref of the baseline (default "HEAD") */
+  baselineRef?: string;
+  /** Compare against the merge-base of baselineRef and HEAD instead of the ref itself */
+  baselineMergeBase?: boolean;
+  /** Report breaking changes against the previous version of each spec */
+  breakingChanges?: boolean;
+  /** Previous version to compare with: a git ref (default "HEAD") or a spec file path */
+  breakingChangesBase?: string;
+  /** Violations recorded in .restlens-baseline.json: left out, or shown as hints */
+  baselineDisplay?: "hide" | "hint";
+}
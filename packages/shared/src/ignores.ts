@@ -0,0 +1,24 @@
+/**
+ * Ignore Types
+ *
+ * Types of server-side ignores shared by the language server and the
+ * extension, which both build and display them.
+ */
+
+/**
+ * Simplified ViolationKey for ignore API requests.
+ * The ignore API only needs these fields, not the full ViolationKey with violation_key_type.
+ */
+export interface ViolationKey {
+  path?: string;
+  operation_id?: string;
+  http_code?: string;
+  schema_path?: string;
+}
+
+/**
+ * What a server-side ignore covers: the violation's exact location, its
+ * operation, or its path. Ignores for a whole file stay in the file, as an
+ * x-restlens-ignore annotation at its root.
+ */
+export type IgnoreScope = "location" | "operation" | "path";
@@ -9,3 +9,7 @@ export * from "@restlens/lib";
 
 // Export IDE-specific config values that aren't in lib
 export { OAUTH_CLIENT_ID } from "./config.js";
+export type { IdeConfig } from "./config.js";
+
+// Ignore types; this ViolationKey takes precedence over the full one from lib
+export type { IgnoreScope, ViolationKey } from "./ignores.js";
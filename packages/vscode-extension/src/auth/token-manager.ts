@@ -1,7 +1,8 @@
 /**
  * Token Manager
  *
- * Manages OAuth tokens in VS Code SecretStorage.
+ * Manages OAuth tokens in VS Code SecretStorage, and refreshes the access
+ * token shortly before it expires.
  */
 
 import * as vscode from "vscode";
@@ -14,6 +15,13 @@ const KEYS = {
   apiUrl: "restlens.apiUrl",
 };
 
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 2 * 60 * 1000;
+// Wait before trying again when a scheduled refresh could not reach the API
+const RETRY_DELAY_MS = 60 * 1000;
+// Longest delay setTimeout supports
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
 export interface StoredTokens {
   accessToken: string;
   refreshToken: string;
@@ -22,8 +30,14 @@ export interface StoredTokens {
   apiUrl: string;
 }
 
-export class TokenManager {
+export class TokenManager implements vscode.Disposable {
   private secrets: vscode.SecretStorage;
+  private refreshing: Promise<boolean> | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private refreshEmitter = new vscode.EventEmitter<string>();
+
+  /** Fires with the new access token after every successful refresh */
+  readonly onDidRefresh = this.refreshEmitter.event;
 
   constructor(context: vscode.ExtensionContext) {
     this.secrets = context.secrets;
@@ -50,6 +64,37 @@ export class TokenManager {
         ? this.secrets.store(KEYS.projectIds, JSON.stringify(projectIds))
         : Promise.resolve(),
     ]);
+
+    this.scheduleRefresh(expiresAt);
+  }
+
+  /**
+   * Start refreshing the stored token ahead of its expiry.
+   */
+  async startAutoRefresh(): Promise<void> {
+    const expiryStr = await this.secrets.get(KEYS.tokenExpiry);
+    if (expiryStr) {
+      this.scheduleRefresh(parseInt(expiryStr, 10));
+    }
+  }
+
+  private scheduleRefresh(expiresAt: number): void {
+    this.stopAutoRefresh();
+    const delay = Math.min(Math.max(expiresAt - REFRESH_MARGIN_MS - Date.now(), 0), MAX_TIMER_MS);
+    this.refreshTimer = setTimeout(async () => {
+      this.refreshTimer = null;
+      if (!(await this.refreshToken())) {
+        // Tokens are cleared when the refresh is rejected, which stops retries
+        this.refreshTimer = setTimeout(() => this.startAutoRefresh(), RETRY_DELAY_MS);
+      }
+    }, delay);
+  }
+
+  private stopAutoRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
   }
 
   /**
@@ -77,8 +122,16 @@ export class TokenManager {
 
   /**
    * Refresh the access token using the refresh token.
+   * Concurrent callers share a single refresh.
    */
-  async refreshToken(): Promise<boolean> {
+  refreshToken(): Promise<boolean> {
+    this.refreshing ??= this.doRefreshToken().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  private async doRefreshToken(): Promise<boolean> {
     const refreshToken = await this.secrets.get(KEYS.refreshToken);
     const apiUrl = await this.secrets.get(KEYS.apiUrl);
 
@@ -119,6 +172,7 @@ export class TokenManager {
         data.project_ids
       );
 
+      this.refreshEmitter.fire(data.access_token);
       return true;
     } catch (error) {
       console.error("Token refresh error:", error);
@@ -160,6 +214,7 @@ export class TokenManager {
    * Clear all stored tokens.
    */
   async clearTokens(): Promise<void> {
+    this.stopAutoRefresh();
     await Promise.all([
       this.secrets.delete(KEYS.accessToken),
       this.secrets.delete(KEYS.refreshToken),
@@ -168,4 +223,9 @@ export class TokenManager {
       this.secrets.delete(KEYS.apiUrl),
     ]);
   }
+
+  dispose(): void {
+    this.stopAutoRefresh();
+    this.refreshEmitter.dispose();
+  }
 }
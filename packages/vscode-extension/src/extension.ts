@@ -16,12 +16,22 @@ import {
 import { TokenManager } from "./auth/token-manager";
 import { OAuthFlow } from "./auth/oauth-flow";
 import { StatusBar } from "./ui/status-bar";
-import type { RestLensConfig } from "@restlens-ide/shared";
+import { IgnoresView, type IgnoreEntry, type IgnoreNode } from "./ui/ignores-view";
+import { promptIgnoreWaiver } from "./ui/ignore-prompt";
+import type { IdeConfig } from "@restlens-ide/shared";
 
 let client: LanguageClient | null = null;
 let tokenManager: TokenManager;
 let oauthFlow: OAuthFlow;
 let statusBar: StatusBar;
+let ignoresView: IgnoresView;
+
+// Latest document version an evaluation was started or completed for, per
+// URI, so late results for older text don't overwrite the status bar
+const evaluationVersions = new Map<string, number>();
+
+// Progress of the running "Evaluate All Specs" command, if any
+let workspaceProgress: { progress: vscode.Progress<{ message?: string; increment?: number }>; done: number } | null = null;
 
 export async function activate(context: vscode.ExtensionContext) {
   console.log("REST Lens extension activating...");
@@ -30,6 +40,17 @@ export async function activate(context: vscode.ExtensionContext) {
   tokenManager = new TokenManager(context);
   oauthFlow = new OAuthFlow(tokenManager);
   statusBar = new StatusBar();
+  ignoresView = new IgnoresView(() => client?.sendRequest<IgnoreEntry[] | null>("restlens/listIgnores") ?? Promise.resolve(null));
+  context.subscriptions.push(tokenManager, ignoresView);
+  context.subscriptions.push(vscode.window.registerTreeDataProvider("restlens.ignores", ignoresView));
+
+  // Keep the server's token current without re-validating everything
+  context.subscriptions.push(
+    tokenManager.onDidRefresh((accessToken) => {
+      client?.sendNotification("restlens/updateToken", { accessToken });
+    })
+  );
+  await tokenManager.startAutoRefresh();
 
   // Register commands
   context.subscriptions.push(
@@ -37,8 +58,17 @@ export async function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand("restlens.signOut", () => signOut()),
     vscode.commands.registerCommand("restlens.selectProject", () => selectProject()),
     vscode.commands.registerCommand("restlens.evaluate", () => evaluate()),
+    vscode.commands.registerCommand("restlens.evaluateWorkspace", () => evaluateWorkspace()),
     vscode.commands.registerCommand("restlens.clearCache", () => clearCache()),
-    vscode.commands.registerCommand("restlens.showMenu", () => showMenu())
+    vscode.commands.registerCommand("restlens.showMenu", () => showMenu()),
+    vscode.commands.registerCommand("restlens.showViolations", (label: string, items: ViolationListItem[]) =>
+      showViolations(label, items)
+    ),
+    vscode.commands.registerCommand("restlens.showBreakingChanges", () => showBreakingChanges()),
+    vscode.commands.registerCommand("restlens.createBaseline", () => updateBaseline("create")),
+    vscode.commands.registerCommand("restlens.pruneBaseline", () => updateBaseline("prune")),
+    vscode.commands.registerCommand("restlens.refreshIgnores", () => ignoresView.refresh()),
+    vscode.commands.registerCommand("restlens.removeIgnore", (node: IgnoreNode) => removeIgnore(node))
   );
 
   // Start language server
@@ -53,6 +83,10 @@ export async function activate(context: vscode.ExtensionContext) {
       if (e.affectsConfiguration("restlens")) {
         updateServerConfig();
       }
+    }),
+    // Versions restart when a document is reopened
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      evaluationVersions.delete(document.uri.toString());
     })
   );
 
@@ -93,12 +127,29 @@ async function startLanguageServer(context: vscode.ExtensionContext) {
       { scheme: "file", pattern: "**/*.json" },
     ],
     synchronize: {
-      fileEvents: vscode.workspace.createFileSystemWatcher("**/.restlens.json"),
+      fileEvents: [
+        vscode.workspace.createFileSystemWatcher("**/.restlens.json"),
+        vscode.workspace.createFileSystemWatcher("**/.restlens-baseline.json"),
+        // Specs and $ref targets that are not open in an editor
+        vscode.workspace.createFileSystemWatcher("**/*.{yaml,yml,json}"),
+        // Commits, checkouts and fetches move the revisions specs are compared with
+        vscode.workspace.createFileSystemWatcher("**/.git/{HEAD,packed-refs}"),
+        vscode.workspace.createFileSystemWatcher("**/.git/refs/**"),
+      ],
     },
-    initializationOptions: await getInitializationOptions(),
-    // Disable pull diagnostics - we use push diagnostics
+    // The server picks pull or push diagnostics from restlens.diagnosticMode
+    initializationOptions: await getInitializationOptions(context),
     middleware: {
-      provideDiagnostics: () => undefined,
+      // Ignores need a scope and a written reason, and may expire
+      executeCommand: async (command, args, next) => {
+        if (command !== "restlens.ignoreRule" && command !== "restlens.ignoreGlobal") {
+          return next(command, args);
+        }
+        const rule = command === "restlens.ignoreRule";
+        const waiver = await promptIgnoreWaiver(rule ? args[1] : args[0], rule ? "rule" : "all rules");
+        if (!waiver) return undefined;
+        return next(command, [...args, waiver]);
+      },
     },
   };
 
@@ -112,16 +163,64 @@ async function startLanguageServer(context: vscode.ExtensionContext) {
   await client.start();
 
   // Listen for evaluation status notifications
-  client.onNotification("restlens/evaluationStarted", () => {
+  client.onNotification("restlens/evaluationStarted", (params: { uri: string; version: number }) => {
+    if (isStaleEvaluation(params.uri, params.version)) return;
     statusBar.setEvaluating();
   });
 
-  client.onNotification("restlens/evaluationComplete", (params: { violationCount: number; maxSeverity?: "error" | "warning" | "info" | null }) => {
-    statusBar.setViolationCount(params.violationCount, params.maxSeverity ?? null);
+  client.onNotification("restlens/evaluationComplete", (params: { uri: string; version: number; violationCount: number; maxSeverity?: "error" | "warning" | "info" | null; offline?: boolean; hiddenCount?: number }) => {
+    if (isStaleEvaluation(params.uri, params.version)) return;
+    statusBar.setViolationCount(params.violationCount, params.maxSeverity ?? null, params.offline ?? false, params.hiddenCount ?? null);
+  });
+
+  client.onNotification("restlens/evaluationFailed", (params: { uri: string; version: number; message: string }) => {
+    if (isStaleEvaluation(params.uri, params.version)) return;
+    statusBar.setEvaluationFailed(params.message);
+  });
+
+  // The server got a 401: refresh the token and hand it over
+  client.onRequest("restlens/requestToken", async () => {
+    const refreshed = await tokenManager.refreshToken();
+    const accessToken = refreshed ? await tokenManager.getAccessToken() : null;
+    if (!accessToken) {
+      await updateStatusBar();
+    }
+    return { accessToken };
+  });
+
+  client.onNotification("restlens/ignoresChanged", () => {
+    ignoresView.refresh();
+  });
+
+  client.onNotification("restlens/apiStatus", (params: { paused: boolean; retryAt?: number }) => {
+    statusBar.setPaused(params.paused ? params.retryAt ?? Date.now() : null);
+  });
+
+  client.onNotification("restlens/workspaceProgress", (params: { done: number; total: number }) => {
+    if (!workspaceProgress || params.total === 0) return;
+    const increment = ((params.done - workspaceProgress.done) / params.total) * 100;
+    workspaceProgress.done = params.done;
+    workspaceProgress.progress.report({
+      message: `${params.done}/${params.total} specs`,
+      increment,
+    });
   });
 }
 
-async function getInitializationOptions() {
+/**
+ * Whether a notification is about an older version of the document than
+ * one already seen. Records the version otherwise.
+ */
+function isStaleEvaluation(uri: string, version: number): boolean {
+  const latest = evaluationVersions.get(uri);
+  if (latest !== undefined && version < latest) {
+    return true;
+  }
+  evaluationVersions.set(uri, version);
+  return false;
+}
+
+async function getInitializationOptions(context: vscode.ExtensionContext) {
   const config = await getConfigAsync();
   const accessToken = await tokenManager.getAccessToken();
 
@@ -130,6 +229,8 @@ async function getInitializationOptions() {
   return {
     config,
     accessToken,
+    // Persistent diagnostics cache lives in the extension's global storage
+    cacheDir: context.globalStorageUri.fsPath,
   };
 }
 
@@ -145,9 +246,11 @@ async function updateServerConfig() {
     config,
     accessToken,
   });
+  // The project or account may have changed
+  ignoresView.refresh();
 }
 
-async function getConfigAsync(): Promise<RestLensConfig> {
+async function getConfigAsync(): Promise<IdeConfig> {
   const vsConfig = vscode.workspace.getConfiguration("restlens");
 
   // Get API URL from token manager (stored with auth)
@@ -162,6 +265,19 @@ async function getConfigAsync(): Promise<RestLensConfig> {
     evaluateOnType: vsConfig.get("evaluateOnType") ?? false,
     debounceMs: vsConfig.get("debounceMs") ?? 1000,
     includeInfoSeverity: vsConfig.get("includeInfoSeverity") ?? false,
+    backgroundIndexing: vsConfig.get("backgroundIndexing") ?? false,
+    diagnosticMode: vsConfig.get("diagnosticMode") ?? "auto",
+    mode: vsConfig.get("mode") ?? "online",
+    persistentCache: vsConfig.get("persistentCache.enabled") ?? true,
+    persistentCacheMaxSizeMb: vsConfig.get("persistentCache.maxSizeMb") ?? 50,
+    persistentCacheTtlHours: vsConfig.get("persistentCache.ttlHours") ?? 168,
+    codeLens: vsConfig.get("codeLens") ?? true,
+    newViolationsOnly: vsConfig.get("newViolationsOnly.enabled") ?? false,
+    baselineRef: vsConfig.get("newViolationsOnly.baseRef") || "HEAD",
+    baselineMergeBase: vsConfig.get("newViolationsOnly.mergeBase") ?? false,
+    breakingChanges: vsConfig.get("breakingChanges.enabled") ?? true,
+    breakingChangesBase: vsConfig.get("breakingChanges.compareWith") || "HEAD",
+    baselineDisplay: vsConfig.get("baseline.display") ?? "hide",
   };
 }
 
@@ -304,17 +420,171 @@ async function evaluate() {
   vscode.window.showInformationMessage("Evaluation triggered");
 }
 
+async function evaluateWorkspace() {
+  if (!client) return;
+  const languageClient = client;
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "REST Lens: Evaluating workspace",
+      cancellable: true,
+    },
+    async (progress, token) => {
+      workspaceProgress = { progress, done: 0 };
+      try {
+        const result = await languageClient.sendRequest<{ total: number; evaluated: number; failed: number }>(
+          "restlens/evaluateWorkspace",
+          {},
+          token
+        );
+        const summary = `REST Lens: Evaluated ${result.evaluated} of ${result.total} OpenAPI specs`;
+        if (result.failed > 0) {
+          vscode.window.showWarningMessage(`${summary}, ${result.failed} failed`);
+        } else {
+          vscode.window.showInformationMessage(summary);
+        }
+      } catch (error) {
+        if (!token.isCancellationRequested) {
+          const message = error instanceof Error ? error.message : "Unknown error";
+          vscode.window.showErrorMessage(`Workspace evaluation failed: ${message}`);
+        }
+      } finally {
+        workspaceProgress = null;
+      }
+    }
+  );
+}
+
 async function clearCache() {
   if (client) {
-    // Notify server to clear cache
-    client.sendNotification("restlens/updateConfig", {
-      config: await getConfigAsync(),
-      accessToken: await tokenManager.getAccessToken(),
-    });
+    // Notify server to clear in-memory and on-disk caches
+    client.sendNotification("restlens/clearCache");
     vscode.window.showInformationMessage("Cache cleared");
   }
 }
 
+/** Violation passed by a code lens, with LSP range and severity */
+interface ViolationListItem {
+  uri: string;
+  range: { start: { line: number; character: number }; end: { line: number; character: number } };
+  message: string;
+  severity?: number;
+  ruleSlug: string;
+}
+
+const SEVERITY_ICONS: Record<number, string> = {
+  1: "$(error)",
+  2: "$(warning)",
+  3: "$(info)",
+  4: "$(lightbulb)",
+};
+
+async function showViolations(label: string, violations: ViolationListItem[]) {
+  interface ViolationItem extends vscode.QuickPickItem {
+    violation: ViolationListItem;
+  }
+
+  const items: ViolationItem[] = violations.map((violation) => ({
+    label: `${SEVERITY_ICONS[violation.severity ?? 2] ?? ""} ${violation.message}`.trim(),
+    description: violation.ruleSlug,
+    detail: `${vscode.workspace.asRelativePath(vscode.Uri.parse(violation.uri))}:${violation.range.start.line + 1}`,
+    violation,
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: `REST Lens: ${label}`,
+    matchOnDescription: true,
+  });
+  if (!selected) return;
+
+  const { start, end } = selected.violation.range;
+  const range = new vscode.Range(start.line, start.character, end.line, end.character);
+  const editor = await vscode.window.showTextDocument(vscode.Uri.parse(selected.violation.uri), { selection: range });
+  editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+async function showBreakingChanges() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || !client) {
+    vscode.window.showWarningMessage("Open an OpenAPI spec to check for breaking changes");
+    return;
+  }
+
+  const result = await client.sendRequest<{ base: string; changes: ViolationListItem[] } | null>(
+    "restlens/breakingChanges",
+    { uri: editor.document.uri.toString() }
+  );
+  if (!result) {
+    vscode.window.showInformationMessage("REST Lens: No previous version of this spec to compare with");
+    return;
+  }
+  if (result.changes.length === 0) {
+    vscode.window.showInformationMessage(`REST Lens: No breaking changes against ${result.base}`);
+    return;
+  }
+
+  await showViolations(`${result.changes.length} breaking changes against ${result.base}`, result.changes);
+}
+
+async function updateBaseline(action: "create" | "prune") {
+  if (!client) return;
+  const languageClient = client;
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: action === "create" ? "REST Lens: Creating baseline" : "REST Lens: Pruning baseline",
+      cancellable: true,
+    },
+    async (_progress, token) => {
+      try {
+        const result = await languageClient.sendRequest<{ entries: number; removed?: number } | null>(
+          action === "create" ? "restlens/createBaseline" : "restlens/pruneBaseline",
+          {},
+          token
+        );
+        if (!result) return;
+        vscode.window.showInformationMessage(
+          action === "create"
+            ? `REST Lens: Baseline created with ${result.entries} known violations`
+            : `REST Lens: Removed ${result.removed ?? 0} fixed violations from the baseline (${result.entries} left)`
+        );
+      } catch (error) {
+        if (!token.isCancellationRequested) {
+          const message = error instanceof Error ? error.message : "Unknown error";
+          vscode.window.showErrorMessage(`Baseline update failed: ${message}`);
+        }
+      }
+    }
+  );
+}
+
+async function removeIgnore(node: IgnoreNode) {
+  if (!client || node?.type !== "ignore") return;
+  const { ignore } = node;
+
+  const what = ignore.ruleSlug ? `the ignore of ${ignore.ruleSlug}` : "the ignore of all rules";
+  const where = [ignore.violationKey.path, ignore.violationKey.operation_id].filter(Boolean).join(" ") || "this location";
+  const choice = await vscode.window.showWarningMessage(
+    `Remove ${what} at ${where}? Its violations will be reported again.`,
+    { modal: true },
+    "Remove"
+  );
+  if (choice !== "Remove") return;
+
+  try {
+    await client.sendRequest("restlens/removeIgnore", {
+      id: ignore.id,
+      ruleId: ignore.ruleId,
+      violationKey: ignore.violationKey,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    vscode.window.showErrorMessage(`Failed to remove ignore: ${message}`);
+  }
+}
+
 async function showMenu() {
   const hasToken = await tokenManager.hasValidToken();
   const config = await getConfigAsync();
@@ -339,6 +609,11 @@ async function showMenu() {
         description: "Run evaluation on the active OpenAPI spec",
         action: evaluate,
       });
+      items.push({
+        label: "$(files) Evaluate All Specs",
+        description: "Run evaluation on every OpenAPI spec in the workspace",
+        action: evaluateWorkspace,
+      });
       items.push({
         label: "$(checklist) View Problems",
         description: "Open the Problems panel",
@@ -0,0 +1,91 @@
+/**
+ * Ignore Prompt
+ *
+ * Asks for the scope, justification and expiry of a new ignore. Ignores for
+ * the whole file are added to the file as an x-restlens-ignore annotation,
+ * which has no expiry.
+ */
+
+import * as vscode from "vscode";
+import type { IgnoreScope, ViolationKey } from "@restlens-ide/shared";
+
+/** Waiver details passed to the server with the ignore command */
+export interface IgnoreWaiver {
+  scope: IgnoreScope | "file";
+  reason: string;
+  /** ISO 8601 timestamp */
+  expiresAt?: string;
+}
+
+/**
+ * Prompt for an ignore of `subject` ("rule" or "all rules") at a violation.
+ * Resolves to undefined when the user cancels any step.
+ */
+export async function promptIgnoreWaiver(key: ViolationKey, subject: string): Promise<IgnoreWaiver | undefined> {
+  interface ScopeItem extends vscode.QuickPickItem {
+    scope: IgnoreWaiver["scope"];
+  }
+
+  const title = `REST Lens: Ignore ${subject}`;
+  const items: ScopeItem[] = [
+    { label: "This location", description: describeKey(key), scope: "location" },
+  ];
+  if (key.operation_id) {
+    items.push({ label: "This operation", description: key.operation_id, scope: "operation" });
+  }
+  if (key.path) {
+    items.push({ label: "This path", description: key.path, scope: "path" });
+  }
+  items.push({ label: "This file", description: "The whole spec, with x-restlens-ignore at its root", scope: "file" });
+
+  const scope = await vscode.window.showQuickPick(items, { title, placeHolder: "Where should the ignore apply?" });
+  if (!scope) return undefined;
+
+  const reason = await vscode.window.showInputBox({
+    title,
+    prompt: "Justification (required)",
+    placeHolder: "Why is this acceptable?",
+    ignoreFocusOut: true,
+    validateInput: (value) => (value.trim() ? null : "A justification is required"),
+  });
+  if (reason === undefined) return undefined;
+  if (scope.scope === "file") {
+    return { scope: scope.scope, reason: reason.trim() };
+  }
+
+  const expiry = await vscode.window.showInputBox({
+    title,
+    prompt: "Expiry date (optional)",
+    placeHolder: "YYYY-MM-DD, or leave empty to never expire",
+    ignoreFocusOut: true,
+    validateInput: validateExpiry,
+  });
+  if (expiry === undefined) return undefined;
+
+  return {
+    scope: scope.scope,
+    reason: reason.trim(),
+    expiresAt: expiry.trim() ? endOfDay(expiry.trim()) : undefined,
+  };
+}
+
+function describeKey(key: ViolationKey): string {
+  return [key.path, key.operation_id, key.http_code, key.schema_path].filter(Boolean).join(" ");
+}
+
+function validateExpiry(value: string): string | null {
+  const date = value.trim();
+  if (!date) return null;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    return "Enter a date as YYYY-MM-DD";
+  }
+  if (Date.parse(endOfDay(date)) < Date.now()) {
+    return "The expiry date is in the past";
+  }
+  return null;
+}
+
+// The ignore holds through the whole expiry day (UTC)
+function endOfDay(date: string): string {
+  return `${date}T23:59:59Z`;
+}
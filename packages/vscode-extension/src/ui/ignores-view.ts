@@ -0,0 +1,143 @@
+/**
+ * Ignores View
+ *
+ * Tree of the project's global and per-rule ignores, grouped by path and
+ * operation, with who created each one and when.
+ */
+
+import * as vscode from "vscode";
+import type { IgnoreScope, ViolationKey } from "@restlens-ide/shared";
+
+/** Ignore as listed by the language server */
+export interface IgnoreEntry {
+  id: string;
+  violationKey: ViolationKey;
+  ruleId?: number | null;
+  ruleSlug?: string | null;
+  scope?: IgnoreScope | null;
+  reason?: string | null;
+  expiresAt?: string | null;
+  createdBy?: string | null;
+  createdAt?: string;
+}
+
+export type IgnoreNode =
+  | { type: "path"; path: string; operations: Map<string, IgnoreEntry[]> }
+  | { type: "operation"; operationId: string; ignores: IgnoreEntry[] }
+  | { type: "ignore"; ignore: IgnoreEntry };
+
+export class IgnoresView implements vscode.TreeDataProvider<IgnoreNode> {
+  private changeEmitter = new vscode.EventEmitter<IgnoreNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  // Loaded when the view is first shown, and again after refresh()
+  private ignores: Promise<IgnoreEntry[]> | null = null;
+
+  constructor(private load: () => Promise<IgnoreEntry[] | null>) {}
+
+  refresh(): void {
+    this.ignores = null;
+    this.changeEmitter.fire(undefined);
+  }
+
+  async getChildren(node?: IgnoreNode): Promise<IgnoreNode[]> {
+    if (!node) {
+      this.ignores ??= this.load().then(
+        (ignores) => ignores ?? [],
+        (error) => {
+          const message = error instanceof Error ? error.message : "Unknown error";
+          vscode.window.showErrorMessage(`Failed to load ignores: ${message}`);
+          return [];
+        }
+      );
+      return groupByPath(await this.ignores);
+    }
+
+    if (node.type === "path") {
+      return Array.from(node.operations, ([operationId, ignores]) => ({ type: "operation" as const, operationId, ignores }));
+    }
+    if (node.type === "operation") {
+      return node.ignores.map((ignore) => ({ type: "ignore" as const, ignore }));
+    }
+    return [];
+  }
+
+  getTreeItem(node: IgnoreNode): vscode.TreeItem {
+    if (node.type === "path") {
+      const item = new vscode.TreeItem(node.path || "(any path)", vscode.TreeItemCollapsibleState.Expanded);
+      item.iconPath = new vscode.ThemeIcon("symbol-namespace");
+      return item;
+    }
+
+    if (node.type === "operation") {
+      const item = new vscode.TreeItem(node.operationId || "(all operations)", vscode.TreeItemCollapsibleState.Expanded);
+      item.iconPath = new vscode.ThemeIcon("symbol-method");
+      return item;
+    }
+
+    const { ignore } = node;
+    const global = !ignore.ruleId && !ignore.ruleSlug;
+    const expired = isExpired(ignore);
+    const item = new vscode.TreeItem(global ? "All rules" : ignore.ruleSlug || `Rule ${ignore.ruleId}`);
+    item.description = [expired ? "expired" : null, ignore.createdBy, formatDate(ignore.createdAt)].filter(Boolean).join(" · ");
+    item.tooltip = ignoreTooltip(ignore, global);
+    item.iconPath = new vscode.ThemeIcon(expired ? "history" : global ? "circle-slash" : "eye-closed");
+    item.contextValue = "restlensIgnore";
+    return item;
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+function groupByPath(ignores: IgnoreEntry[]): IgnoreNode[] {
+  const byPath = new Map<string, Map<string, IgnoreEntry[]>>();
+  for (const ignore of ignores) {
+    const path = ignore.violationKey.path ?? "";
+    const operationId = ignore.violationKey.operation_id ?? "";
+    if (!byPath.has(path)) byPath.set(path, new Map());
+    const operations = byPath.get(path)!;
+    if (!operations.has(operationId)) operations.set(operationId, []);
+    operations.get(operationId)!.push(ignore);
+  }
+
+  return Array.from(byPath.keys())
+    .sort()
+    .map((path) => {
+      const operations = byPath.get(path)!;
+      const sorted = new Map(Array.from(operations).sort(([a], [b]) => a.localeCompare(b)));
+      return { type: "path" as const, path, operations: sorted };
+    });
+}
+
+function ignoreTooltip(ignore: IgnoreEntry, global: boolean): vscode.MarkdownString {
+  const { path, operation_id, http_code, schema_path } = ignore.violationKey;
+  const rows: [string, string | null | undefined][] = [
+    ["Rule", global ? "All rules" : ignore.ruleSlug || String(ignore.ruleId)],
+    ["Path", path],
+    ["Operation", operation_id],
+    ["Status code", http_code],
+    ["Schema", schema_path],
+    ["Scope", ignore.scope],
+    ["Reason", ignore.reason],
+    [isExpired(ignore) ? "Expired" : "Expires", formatDate(ignore.expiresAt ?? undefined)],
+    ["Created by", ignore.createdBy],
+    ["Created", formatDate(ignore.createdAt)],
+  ];
+  const tooltip = new vscode.MarkdownString();
+  for (const [label, value] of rows) {
+    if (value) tooltip.appendMarkdown(`**${label}:** `).appendText(value).appendMarkdown("  \n");
+  }
+  return tooltip;
+}
+
+function isExpired(ignore: IgnoreEntry): boolean {
+  return !!ignore.expiresAt && Date.parse(ignore.expiresAt) <= Date.now();
+}
+
+function formatDate(timestamp: string | undefined): string | undefined {
+  if (!timestamp) return undefined;
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+}
@@ -15,7 +15,13 @@ export class StatusBar {
   private isEvaluating = false;
   private violationCount = 0;
   private maxSeverity: MaxSeverity = null;
+  private isOffline = false;
+  // Violations hidden by "new violations only" (null when the mode is off)
+  private hiddenCount: number | null = null;
   private errorMessage: string | null = null;
+  // Why the latest evaluation failed, until the next one starts
+  private evaluationError: string | null = null;
+  private pausedUntil: number | null = null;
 
   constructor() {
     this.item = vscode.window.createStatusBarItem(
@@ -57,6 +63,13 @@ export class StatusBar {
 
   setEvaluating(): void {
     this.isEvaluating = true;
+    this.evaluationError = null;
+    this.update();
+  }
+
+  setEvaluationFailed(message: string): void {
+    this.isEvaluating = false;
+    this.evaluationError = message;
     this.update();
   }
 
@@ -66,10 +79,22 @@ export class StatusBar {
     this.update();
   }
 
-  setViolationCount(count: number, maxSeverity: MaxSeverity = null): void {
+  setViolationCount(count: number, maxSeverity: MaxSeverity = null, offline = false, hiddenCount: number | null = null): void {
     this.violationCount = count;
     this.maxSeverity = maxSeverity;
+    this.isOffline = offline;
+    this.hiddenCount = hiddenCount;
     this.isEvaluating = false;
+    this.evaluationError = null;
+    this.update();
+  }
+
+  /**
+   * Show that API requests are paused after repeated failures, until the
+   * given time (null once they resume).
+   */
+  setPaused(retryAt: number | null): void {
+    this.pausedUntil = retryAt;
     this.update();
   }
 
@@ -115,11 +140,34 @@ export class StatusBar {
       return;
     }
 
+    if (this.pausedUntil !== null) {
+      const time = new Date(this.pausedUntil).toLocaleTimeString();
+      this.item.text = "$(debug-pause) REST Lens: Paused";
+      this.item.tooltip = `REST Lens API unavailable after repeated failures - retrying at ${time}, showing local results meanwhile`;
+      this.item.command = "restlens.showMenu";
+      this.item.backgroundColor = new vscode.ThemeColor("statusBarItem.warningBackground");
+      return;
+    }
+
+    if (this.evaluationError !== null) {
+      this.item.text = "$(warning) REST Lens: Evaluation failed";
+      this.item.tooltip = `${this.evaluationError} - click for REST Lens options`;
+      this.item.command = "restlens.showMenu";
+      this.item.backgroundColor = new vscode.ThemeColor("statusBarItem.warningBackground");
+      return;
+    }
+
     // Authenticated and not evaluating
+    const label = this.isOffline ? "REST Lens (offline)" : "REST Lens";
+    const hidden = this.hiddenCount !== null
+      ? ` (new only, ${this.hiddenCount} existing hidden)`
+      : "";
     if (this.violationCount > 0) {
       const icon = this.maxSeverity === "error" ? "error" : this.maxSeverity === "warning" ? "warning" : "info";
-      this.item.text = `$(${icon}) REST Lens: ${this.violationCount} issues`;
-      this.item.tooltip = `${this.violationCount} API design issues found - click for options`;
+      this.item.text = `$(${icon}) ${label}: ${this.violationCount} ${this.hiddenCount !== null ? "new " : ""}issues`;
+      this.item.tooltip = this.isOffline
+        ? `${this.violationCount} issues found by the local rules${hidden} - click for options`
+        : `${this.violationCount} API design issues found${hidden} - click for options`;
       this.item.command = "restlens.showMenu";
 
       // Color based on max severity
@@ -131,8 +179,10 @@ export class StatusBar {
         this.item.backgroundColor = undefined;
       }
     } else {
-      this.item.text = "$(check) REST Lens: Ready";
-      this.item.tooltip = "Click for REST Lens options";
+      this.item.text = this.hiddenCount !== null ? `$(check) ${label}: No new issues` : `$(check) ${label}: Ready`;
+      this.item.tooltip = this.hiddenCount !== null
+        ? `No new issues, ${this.hiddenCount} existing hidden - click for REST Lens options`
+        : "Click for REST Lens options";
       this.item.command = "restlens.showMenu";
       this.item.backgroundColor = undefined;
     }